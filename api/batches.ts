@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createScrapeBatch, getBatchProgress } from '../lib/db.js';
+import { dispatchSources, isUuid, parseSourceOptions } from '../lib/sources.js';
+import { parseBatchInput, resolveBatchLines, MAX_BATCH_LINES } from '../lib/batches.js';
+import type { BatchRequest, BatchResponse } from '../lib/types.js';
+
+// =============================================================================
+// BATCHES ENDPOINT
+// =============================================================================
+// POST /api/batches       - Bulk enqueue a list of Loom URLs
+// GET  /api/batches?id=   - Aggregate progress of a batch
+//
+// The body is a JSON array of URLs (or { url, type } objects), a JSON object
+// with `urls` or `text` plus the options of /api/enqueue, or a raw
+// newline-separated / CSV body (text/plain or text/csv, default options).
+// CSV input may start with a header row naming its url and type columns.
+//
+// Each line's type is classified from its URL unless given. Every valid line
+// becomes a source of one batch; invalid and duplicate lines are reported
+// with their line number. Recursion only applies to the folder lines.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return await handleGetBatch(req, res);
+    }
+
+    if (req.method === 'POST') {
+      return await handleCreateBatch(req, res);
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' } satisfies BatchResponse);
+  } catch (error) {
+    console.error('[Batches API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies BatchResponse);
+  }
+}
+
+// =============================================================================
+// HANDLER FUNCTIONS
+// =============================================================================
+
+async function handleGetBatch(req: VercelRequest, res: VercelResponse): Promise<VercelResponse> {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Batch ID is required' } satisfies BatchResponse);
+  }
+
+  if (!isUuid(id)) {
+    return res.status(404).json({ success: false, error: 'Batch not found' } satisfies BatchResponse);
+  }
+
+  const batch = await getBatchProgress(id);
+  if (!batch) {
+    return res.status(404).json({ success: false, error: 'Batch not found' } satisfies BatchResponse);
+  }
+
+  return res.status(200).json({ success: true, data: batch } satisfies BatchResponse);
+}
+
+async function handleCreateBatch(req: VercelRequest, res: VercelResponse): Promise<VercelResponse> {
+  const body: unknown = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : req.body;
+
+  const lines = parseBatchInput(body);
+  if (typeof lines === 'string') {
+    return res.status(400).json({ success: false, error: lines } satisfies BatchResponse);
+  }
+
+  if (lines.length === 0) {
+    return res.status(400).json({ success: false, error: 'No URLs found' } satisfies BatchResponse);
+  }
+
+  if (lines.length > MAX_BATCH_LINES) {
+    return res.status(400).json({
+      success: false,
+      error: `A batch takes at most ${MAX_BATCH_LINES} URLs, got ${lines.length}`,
+    } satisfies BatchResponse);
+  }
+
+  // Options only come with a JSON object body
+  const request = typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as BatchRequest) : {};
+
+  const options = parseSourceOptions(request);
+  if (typeof options === 'string') {
+    return res.status(400).json({ success: false, error: options } satisfies BatchResponse);
+  }
+
+  const { sources, errors } = resolveBatchLines(lines);
+  if (sources.length === 0) {
+    return res.status(400).json({ success: false, error: 'No valid URLs', errors } satisfies BatchResponse);
+  }
+
+  // One insert for the batch and all of its sources - passwords are encrypted at rest
+  const created = await createScrapeBatch(sources, lines.length, errors, options);
+  const batch_id = created[0].batch_id as string;
+
+  console.log(`[Batches] Created batch ${batch_id}: ${created.length} sources, ${errors.length} rejected lines`);
+
+  // The batch already exists - answer with its ID even if queueing fails partway.
+  // Sources that weren't queued stay pending and the cron job dispatches them
+  let warning: string | undefined;
+  try {
+    await dispatchSources(created);
+  } catch (error) {
+    console.error(`[Batches] Failed to dispatch batch ${batch_id}:`, error);
+    warning = 'Some sources could not be queued yet - the cron job will retry them';
+  }
+
+  const batch = await getBatchProgress(batch_id);
+
+  return res.status(202).json({ success: true, data: batch ?? undefined, warning } satisfies BatchResponse);
+}
@@ -0,0 +1,92 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getComments } from '../lib/db.js';
+import type { CommentsResponse, CommentFilters } from '../lib/types.js';
+
+// =============================================================================
+// COMMENTS API ENDPOINT
+// =============================================================================
+// GET /api/comments
+//
+// Query parameters:
+// - author: Only comments by this author (case-insensitive)
+// - user_id: Only comments by this Loom user ID
+// - mentioned: Only comments mentioning this Loom user ID
+// - since: Only comments posted at or after this ISO 8601 date/time
+// - video_id: Only comments on this Loom video
+// - unanswered: "true" for top-level comments without replies
+// - include_deleted: "true" to include tombstones of deleted comments
+// - limit: Number of comments to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Returns comments and replies, newest first. Replies carry the ID of their
+// top-level comment in parent_id.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies CommentsResponse);
+  }
+
+  try {
+    const {
+      author,
+      user_id,
+      mentioned,
+      since,
+      video_id,
+      unanswered,
+      include_deleted,
+      limit: limit_str,
+      offset: offset_str,
+    } = req.query;
+
+    const filters: CommentFilters = {
+      author: typeof author === 'string' && author ? author : undefined,
+      user_id: typeof user_id === 'string' && user_id ? user_id : undefined,
+      mentioned: typeof mentioned === 'string' && mentioned ? mentioned : undefined,
+      video_id: typeof video_id === 'string' && video_id ? video_id : undefined,
+      unanswered: unanswered === 'true',
+      include_deleted: include_deleted === 'true',
+    };
+
+    if (since) {
+      const since_date = new Date(since as string);
+      if (isNaN(since_date.getTime())) {
+        return res.status(400).json({ success: false, error: 'Invalid "since" date' } satisfies CommentsResponse);
+      }
+      filters.since = since_date;
+    }
+
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { comments, total } = await getComments(filters, limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: comments,
+      total,
+    } satisfies CommentsResponse);
+  } catch (error) {
+    console.error('[Comments API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies CommentsResponse);
+  }
+}
@@ -1,6 +1,20 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getPendingVideoJobs } from '../../lib/db.js';
-import { publishVideoJob, type VideoJobPayload } from '../../lib/qstash.js';
+import {
+  getPendingVideoJobs,
+  getStalledSources,
+  failExpiredSourceVideos,
+  settleScrapeSource,
+  getDueSources,
+  startScheduledRun,
+  expireIdempotencyKeys,
+  purgeSourceCredentials,
+  rotateCredentials,
+} from '../../lib/db.js';
+import { hasEncryptionKey } from '../../lib/crypto.js';
+import { emitSourceSettled } from '../../lib/webhooks.js';
+import { dispatchSource } from '../../lib/sources.js';
+import { nextScheduledRun } from '../../lib/schedule.js';
+import { publishVideoJob, publishFolderJob, type VideoJobPayload } from '../../lib/qstash.js';
 import type { CronResponse } from '../../lib/types.js';
 
 // =============================================================================
@@ -8,11 +22,21 @@ import type { CronResponse } from '../../lib/types.js';
 // =============================================================================
 // GET /api/cron/scrape
 //
-// This cron job runs daily (configured in vercel.json).
+// This cron job runs hourly (configured in vercel.json).
 // With QStash, it only needs to:
 // - Re-queue any failed/pending jobs from the database
+// - Restart folder job chains that stopped making progress, and dispatch
+//   sources that were created but never queued
+// - Fail source videos the video worker never reported on, settling their sources
+// - Re-run scheduled sources whose next_run_at has passed
+// - Release enqueue idempotency keys older than 24 hours
+// - Purge credentials of settled, unscheduled sources and re-encrypt stored
+//   credentials that aren't under the current key (plaintext or a previous key)
 // - QStash handles the actual job delivery and retries
 //
+// Schedules can't run more often than this endpoint does - a source due
+// between cron runs is re-run on the next one.
+//
 // Security: Protected by Vercel's CRON_SECRET header
 // =============================================================================
 
@@ -41,18 +65,106 @@ export default async function handler(
 
   const errors: string[] = [];
   let jobs_published = 0;
+  let sources_resumed = 0;
+  let sources_scheduled = 0;
 
   try {
     console.log('[Cron] Starting maintenance job');
 
+    // Videos QStash gave up on never report back - fail them so their sources can settle
+    const expired_source_ids = await failExpiredSourceVideos();
+
+    for (const source_id of expired_source_ids) {
+      const settled = await settleScrapeSource(source_id);
+      if (settled) {
+        console.log(`[Cron] Source ${source_id} settled: ${settled.status}`);
+        await emitSourceSettled(settled);
+      }
+    }
+
+    // Resume bulk sources whose chain died - listing and queue progress are in Postgres
+    const stalled_sources = await getStalledSources();
+
+    for (const source of stalled_sources) {
+      try {
+        // Video sources only stall when they were never dispatched
+        if (source.type === 'video') {
+          await dispatchSource(source);
+        } else {
+          await publishFolderJob({ source_id: source.id });
+        }
+        sources_resumed++;
+      } catch (error) {
+        const err_msg = `Failed to resume source ${source.id}: ${error instanceof Error ? error.message : 'Unknown'}`;
+        console.error(`[Cron] ${err_msg}`);
+        errors.push(err_msg);
+      }
+    }
+
+    if (stalled_sources.length > 0) {
+      console.log(`[Cron] Resumed ${sources_resumed}/${stalled_sources.length} stalled sources`);
+    }
+
+    // Re-run scheduled sources that are due, counting the next run from now
+    const due_sources = await getDueSources();
+
+    for (const due of due_sources) {
+      try {
+        const next_run_at = nextScheduledRun(
+          { interval_minutes: due.schedule_interval_minutes, cron: due.schedule_cron },
+          new Date()
+        );
+
+        const source = await startScheduledRun(due.id, next_run_at);
+        if (!source) continue;
+
+        await dispatchSource(source);
+        sources_scheduled++;
+      } catch (error) {
+        const err_msg = `Failed to re-run source ${due.id}: ${error instanceof Error ? error.message : 'Unknown'}`;
+        console.error(`[Cron] ${err_msg}`);
+        errors.push(err_msg);
+      }
+    }
+
+    if (due_sources.length > 0) {
+      console.log(`[Cron] Re-ran ${sources_scheduled}/${due_sources.length} scheduled sources`);
+    }
+
+    const keys_expired = await expireIdempotencyKeys();
+    if (keys_expired > 0) {
+      console.log(`[Cron] Released ${keys_expired} idempotency keys`);
+    }
+
+    const sources_purged = await purgeSourceCredentials();
+    if (sources_purged > 0) {
+      console.log(`[Cron] Purged credentials of ${sources_purged} settled sources`);
+    }
+
+    if (hasEncryptionKey()) {
+      try {
+        const credentials_rotated = await rotateCredentials();
+        if (credentials_rotated > 0) {
+          console.log(`[Cron] Re-encrypted credentials on ${credentials_rotated} rows`);
+        }
+      } catch (error) {
+        const err_msg = `Failed to re-encrypt credentials: ${error instanceof Error ? error.message : 'Unknown'}`;
+        console.error(`[Cron] ${err_msg}`);
+        errors.push(err_msg);
+      }
+    }
+
     // Get pending/failed jobs from database
     const pending_jobs = await getPendingVideoJobs(100);
 
     if (pending_jobs.length === 0) {
       console.log('[Cron] No pending jobs to re-queue');
       return res.status(200).json({
-        success: true,
+        success: errors.length === 0,
         jobs_processed: 0,
+        sources_resumed,
+        sources_scheduled,
+        errors: errors.length > 0 ? errors : undefined,
       } satisfies CronResponse);
     }
 
@@ -64,7 +176,8 @@ export default async function handler(
         const payload: VideoJobPayload = {
           loom_video_id: job.loom_video_id,
           source_id: job.source_id,
-          cookies: job.cookies,
+          archive_media: job.archive_media,
+          folder_path: job.folder_path ?? undefined,
         };
 
         await publishVideoJob(payload);
@@ -81,6 +194,8 @@ export default async function handler(
     return res.status(200).json({
       success: errors.length === 0,
       jobs_processed: jobs_published,
+      sources_resumed,
+      sources_scheduled,
       errors: errors.length > 0 ? errors : undefined,
     } satisfies CronResponse);
   } catch (error) {
@@ -88,6 +203,8 @@ export default async function handler(
     return res.status(500).json({
       success: false,
       jobs_processed: jobs_published,
+      sources_resumed,
+      sources_scheduled,
       errors: [error instanceof Error ? error.message : 'Internal server error'],
     } satisfies CronResponse);
   }
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getPendingVideoJobs } from '../lib/db.js';
+import { createVideoJob, getPendingVideoJobs } from '../lib/db.js';
 import { publishVideoJob, type VideoJobPayload } from '../lib/qstash.js';
 
 // =============================================================================
@@ -40,7 +40,7 @@ export default async function handler(
           const payload: VideoJobPayload = {
             loom_video_id: job.loom_video_id,
             source_id: job.source_id,
-            cookies: job.cookies,
+            archive_media: job.archive_media,
           };
           await publishVideoJob(payload);
           published++;
@@ -65,10 +65,12 @@ export default async function handler(
           return res.status(400).json({ error: 'video_id is required' });
         }
 
+        // The worker reads the (encrypted) cookies from the job row
+        await createVideoJob(video_id, undefined, cookies || undefined);
+
         const payload: VideoJobPayload = {
           loom_video_id: video_id,
           source_id: null,
-          cookies: cookies || null,
         };
 
         await publishVideoJob(payload);
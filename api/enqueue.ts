@@ -1,8 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { extractVideoId, extractFolderId } from '../lib/loom/index.js';
-import { createScrapeSource } from '../lib/db.js';
-import { publishVideoJob, publishFolderJob } from '../lib/qstash.js';
-import type { EnqueueRequest, EnqueueResponse, JobType } from '../lib/types.js';
+import { extractVideoId, buildListing } from '../lib/loom/index.js';
+import { createScrapeSource, getSourceByIdempotencyKey, getInFlightSource } from '../lib/db.js';
+import { dispatchSource, parseSourceOptions, JOB_TYPES } from '../lib/sources.js';
+import type { EnqueueRequest, EnqueueResponse, JobType, ScrapeSource } from '../lib/types.js';
 
 // =============================================================================
 // ENQUEUE ENDPOINT
@@ -13,9 +13,23 @@ import type { EnqueueRequest, EnqueueResponse, JobType } from '../lib/types.js';
 // All processing happens asynchronously in workers.
 //
 // For videos: Publishes directly to video worker
-// For folders: Publishes to folder worker (which then publishes video jobs)
+// For folders, the whole library, shared-with-me and spaces: Publishes to
+// folder worker (which then publishes video jobs)
+//
+// An optional schedule ({ interval_minutes } or { cron }, UTC) makes the
+// source recurring: the cron job re-runs it once next_run_at has passed.
+//
+// Videos already stored are skipped while fresh. `freshness` overrides the
+// global policy for every run of the source; `force: true` re-scrapes every
+// video in this run only.
+//
+// Repeats don't start duplicate work: a request with an Idempotency-Key
+// header that was already used (within 24 hours), or for a URL that is still
+// pending or processing, returns the existing source_id and status with 200.
 // =============================================================================
 
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -23,7 +37,7 @@ export default async function handler(
   // CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -38,56 +52,83 @@ export default async function handler(
 
   try {
     const body = req.body as EnqueueRequest;
-    const { url, type } = body;
-    
-    // Normalize cookies
-    const cookies = body.cookies 
-      ? (typeof body.cookies === 'string' ? body.cookies : JSON.stringify(body.cookies))
-      : undefined;
+    const { url, type, video_passwords } = body;
+    const idempotency_key = req.headers['idempotency-key'];
 
     // Validate
+    if (idempotency_key !== undefined && typeof idempotency_key !== 'string') {
+      return res.status(400).json({ success: false, error: 'Idempotency-Key can only be given once' } satisfies EnqueueResponse);
+    }
+
     if (!url) {
       return res.status(400).json({ success: false, error: 'URL is required' } satisfies EnqueueResponse);
     }
 
-    if (!type || !['video', 'folder'].includes(type)) {
-      return res.status(400).json({ success: false, error: 'Type must be "video" or "folder"' } satisfies EnqueueResponse);
+    if (!type || !JOB_TYPES.includes(type)) {
+      return res.status(400).json({ success: false, error: `Type must be one of: ${JOB_TYPES.join(', ')}` } satisfies EnqueueResponse);
     }
 
-    // Create source record (quick DB insert)
-    const source = await createScrapeSource(url, type as JobType, cookies);
+    const options = parseSourceOptions(body);
+    if (typeof options === 'string') {
+      return res.status(400).json({ success: false, error: options } satisfies EnqueueResponse);
+    }
 
-    if (type === 'video') {
-      const video_id = extractVideoId(url);
-      if (!video_id) {
-        return res.status(400).json({ success: false, error: 'Invalid Loom video URL' } satisfies EnqueueResponse);
-      }
+    if (
+      video_passwords !== undefined &&
+      (typeof video_passwords !== 'object' ||
+        video_passwords === null ||
+        Object.values(video_passwords).some((value) => typeof value !== 'string'))
+    ) {
+      return res.status(400).json({ success: false, error: 'video_passwords must map video IDs to password strings' } satisfies EnqueueResponse);
+    }
+
+    if (options.recursive && type !== 'folder') {
+      return res.status(400).json({ success: false, error: 'recursive only applies to folders' } satisfies EnqueueResponse);
+    }
+
+    if (type === 'video' ? !extractVideoId(url) : !buildListing(type, url)) {
+      return res.status(400).json({ success: false, error: `Invalid Loom ${type} URL` } satisfies EnqueueResponse);
+    }
+
+    if (idempotency_key !== undefined && (!idempotency_key || idempotency_key.length > MAX_IDEMPOTENCY_KEY_LENGTH)) {
+      return res.status(400).json({ success: false, error: `Idempotency-Key must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters` } satisfies EnqueueResponse);
+    }
 
-      // Publish to QStash and return immediately
-      await publishVideoJob({
-        loom_video_id: video_id,
-        source_id: source.id,
-        cookies: cookies || null,
-      });
-
-    } else {
-      const folder_id = extractFolderId(url);
-      if (!folder_id) {
-        return res.status(400).json({ success: false, error: 'Invalid Loom folder URL' } satisfies EnqueueResponse);
+    // A retried request gets the source its key created
+    if (idempotency_key) {
+      const existing = await getSourceByIdempotencyKey(idempotency_key);
+      if (existing) {
+        return respondWithExisting(existing, url, type, res);
       }
+    }
 
-      // Publish folder job - folder worker will handle expansion
-      await publishFolderJob({
-        folder_id,
-        source_id: source.id,
-        cookies: cookies || null,
-      });
+    // The same URL is already being scraped
+    const in_flight = await getInFlightSource(url, type);
+    if (in_flight) {
+      return respondWithExisting(in_flight, url, type, res);
     }
 
+    // Create source record (quick DB insert) - passwords are encrypted at rest
+    const source = await createScrapeSource(url, type, options, video_passwords, idempotency_key);
+
+    // A concurrent request with the same key won the insert
+    if (!source) {
+      const existing = await getSourceByIdempotencyKey(idempotency_key as string);
+      if (!existing) {
+        throw new Error('Source for Idempotency-Key not found');
+      }
+      return respondWithExisting(existing, url, type, res);
+    }
+
+    // Hand off to QStash - videos go to the video worker, everything else to the folder worker
+    await dispatchSource(source);
+
     // Return immediately - processing happens async
     return res.status(202).json({
       success: true,
       source_id: source.id,
+      status: source.status,
+      next_run_at: source.next_run_at,
     } satisfies EnqueueResponse);
 
   } catch (error) {
@@ -98,3 +139,34 @@ export default async function handler(
     } satisfies EnqueueResponse);
   }
 }
+
+// =============================================================================
+// HELPER
+// =============================================================================
+
+/**
+ * Return an existing source instead of starting new work
+ * Reusing an Idempotency-Key for a different URL is a client error
+ */
+function respondWithExisting(
+  source: ScrapeSource,
+  url: string,
+  type: JobType,
+  res: VercelResponse
+): VercelResponse {
+  if (source.url !== url || source.type !== type) {
+    return res.status(422).json({
+      success: false,
+      source_id: source.id,
+      error: 'Idempotency-Key was already used for a different URL',
+    } satisfies EnqueueResponse);
+  }
+
+  return res.status(200).json({
+    success: true,
+    source_id: source.id,
+    status: source.status,
+    next_run_at: source.next_run_at,
+    duplicate: true,
+  } satisfies EnqueueResponse);
+}
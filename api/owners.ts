@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getOwners, getOwnerById } from '../lib/db.js';
+import type { OwnersResponse } from '../lib/types.js';
+
+// =============================================================================
+// OWNERS API ENDPOINT
+// =============================================================================
+// GET /api/owners
+//
+// Query parameters:
+// - id: Get a specific owner by Loom user ID
+// - limit: Number of owners to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Lists video creators with their avatar and number of scraped videos.
+// Use /api/owners/:id/videos for an owner's videos.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies OwnersResponse);
+  }
+
+  try {
+    const { id, limit: limit_str, offset: offset_str } = req.query;
+
+    // Get single owner by Loom user ID
+    if (id && typeof id === 'string') {
+      const owner = await getOwnerById(id);
+
+      if (!owner) {
+        return res.status(404).json({ success: false, error: 'Owner not found' } satisfies OwnersResponse);
+      }
+
+      return res.status(200).json({ success: true, data: owner } satisfies OwnersResponse);
+    }
+
+    // List all owners with pagination
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { owners, total } = await getOwners(limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: owners,
+      total,
+    } satisfies OwnersResponse);
+  } catch (error) {
+    console.error('[Owners API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies OwnersResponse);
+  }
+}
@@ -0,0 +1,75 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getOwnerById, getVideosByOwnerId } from '../../../lib/db.js';
+import { transformToLoomVideo, getRequestBaseUrl, type TransformOptions } from '../../../lib/videos.js';
+import type { VideoResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// OWNER VIDEOS ENDPOINT
+// =============================================================================
+// GET /api/owners/:id/videos
+//
+// Query parameters:
+// - limit: Number of videos to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+// - words: "true" to include word-level transcript timings (omitted by default)
+// - lang: Return the transcript in this language (default: original language)
+//
+// Returns the owner's videos, newest first, in the same shape as /api/videos.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies VideoResponse);
+  }
+
+  try {
+    const { id, limit: limit_str, offset: offset_str, words, lang } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Owner ID is required' } satisfies VideoResponse);
+    }
+
+    const owner = await getOwnerById(id);
+    if (!owner) {
+      return res.status(404).json({ success: false, error: 'Owner not found' } satisfies VideoResponse);
+    }
+
+    const options: TransformOptions = {
+      include_words: words === 'true',
+      lang: typeof lang === 'string' && lang ? lang : undefined,
+      base_url: getRequestBaseUrl(req),
+    };
+
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { videos: persisted_videos, total } = await getVideosByOwnerId(id, limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: persisted_videos.map((persisted) => transformToLoomVideo(persisted, options)),
+      total,
+    } satisfies VideoResponse);
+  } catch (error) {
+    console.error('[Owner Videos API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies VideoResponse);
+  }
+}
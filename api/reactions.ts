@@ -0,0 +1,74 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getReactions } from '../lib/db.js';
+import type { ReactionsResponse, ReactionFilters } from '../lib/types.js';
+
+// =============================================================================
+// REACTIONS API ENDPOINT
+// =============================================================================
+// GET /api/reactions
+//
+// Query parameters:
+// - user_name: Only reactions by this user (case-insensitive)
+// - since: Only reactions first scraped at or after this ISO 8601 date/time
+// - video_id: Only reactions on this Loom video
+// - limit: Number of reactions to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Loom doesn't expose when a reaction was left, so `since` filters on
+// first_seen_at (the first scrape that saw it).
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies ReactionsResponse);
+  }
+
+  try {
+    const { user_name, since, video_id, limit: limit_str, offset: offset_str } = req.query;
+
+    const filters: ReactionFilters = {
+      user_name: typeof user_name === 'string' && user_name ? user_name : undefined,
+      video_id: typeof video_id === 'string' && video_id ? video_id : undefined,
+    };
+
+    if (since) {
+      const since_date = new Date(since as string);
+      if (isNaN(since_date.getTime())) {
+        return res.status(400).json({ success: false, error: 'Invalid "since" date' } satisfies ReactionsResponse);
+      }
+      filters.since = since_date;
+    }
+
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { reactions, total } = await getReactions(filters, limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: reactions,
+      total,
+    } satisfies ReactionsResponse);
+  } catch (error) {
+    console.error('[Reactions API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies ReactionsResponse);
+  }
+}
@@ -0,0 +1,65 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { searchVideos } from '../lib/db.js';
+import { buildShareUrl } from '../lib/loom/index.js';
+import type { SearchResponse } from '../lib/types.js';
+
+// =============================================================================
+// SEARCH API ENDPOINT
+// =============================================================================
+// GET /api/search
+//
+// Query parameters:
+// - q: Search query (web search syntax: "exact phrase", -exclude, OR)
+// - limit: Number of hits to return (default: 20, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Searches titles, descriptions, transcript segments and comments.
+// Each hit reports the field that matched; transcript and comment hits
+// include the timestamp and a ?t= deep link into the Loom share URL.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies SearchResponse);
+  }
+
+  try {
+    const { q, limit: limit_str, offset: offset_str } = req.query;
+
+    if (!q || typeof q !== 'string' || !q.trim()) {
+      return res.status(400).json({ success: false, error: 'Query parameter "q" is required' } satisfies SearchResponse);
+    }
+
+    const limit = Math.min(parseInt(limit_str as string) || 20, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { hits, total } = await searchVideos(q.trim(), limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: hits.map((hit) => ({ ...hit, url: buildShareUrl(hit.video_id, hit.ts) })),
+      total,
+    } satisfies SearchResponse);
+  } catch (error) {
+    console.error('[Search API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies SearchResponse);
+  }
+}
@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSourcesProgress } from '../lib/db.js';
+import { JOB_TYPES, isUuid } from '../lib/sources.js';
+import type { JobType, SourceStatus, SourcesResponse } from '../lib/types.js';
+
+// =============================================================================
+// SOURCES API ENDPOINT
+// =============================================================================
+// GET /api/sources
+//
+// Query parameters:
+// - status: pending, processing, completed, partially_failed or failed
+// - type: video, folder, library, shared or space
+// - batch_id: Sources created by one bulk enqueue
+// - limit: Number of sources to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Lists sources newest first with their status, error, videos discovered,
+// per-status video counts and timestamps. Credentials are never returned.
+// Use /api/sources/:id for one source and /api/sources/:id/events to stream
+// its progress.
+// =============================================================================
+
+const SOURCE_STATUSES: SourceStatus[] = ['pending', 'processing', 'completed', 'partially_failed', 'failed'];
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies SourcesResponse);
+  }
+
+  try {
+    const { status, type, batch_id, limit: limit_str, offset: offset_str } = req.query;
+
+    if (status !== undefined && !SOURCE_STATUSES.includes(status as SourceStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${SOURCE_STATUSES.join(', ')}`,
+      } satisfies SourcesResponse);
+    }
+
+    if (type !== undefined && !JOB_TYPES.includes(type as JobType)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${JOB_TYPES.join(', ')}`,
+      } satisfies SourcesResponse);
+    }
+
+    if (batch_id !== undefined && (typeof batch_id !== 'string' || !isUuid(batch_id))) {
+      return res.status(400).json({
+        success: false,
+        error: 'batch_id must be a batch ID (UUID)',
+      } satisfies SourcesResponse);
+    }
+
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { sources, total } = await getSourcesProgress(
+      {
+        status: status as SourceStatus | undefined,
+        type: type as JobType | undefined,
+        batch_id: batch_id as string | undefined,
+      },
+      limit,
+      offset
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: sources,
+      total,
+    } satisfies SourcesResponse);
+  } catch (error) {
+    console.error('[Sources API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies SourcesResponse);
+  }
+}
@@ -0,0 +1,113 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSourceProgress } from '../../../lib/db.js';
+import { isUuid } from '../../../lib/sources.js';
+import type { SourceProgress } from '../../../lib/types.js';
+
+// =============================================================================
+// SOURCE EVENTS ENDPOINT
+// =============================================================================
+// GET /api/sources/:id/events
+//
+// Server-sent events for a progress bar. Sends a `progress` event with the
+// same data as /api/sources/:id whenever it changes, then a `done` event once
+// the source settles and closes the stream.
+//
+// A stream ends before the function's time limit; EventSource reconnects on
+// its own and the first event brings the client up to date.
+// =============================================================================
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15_000; // Keeps proxies from closing an idle stream
+const STREAM_DURATION_MS = 280_000; // Below the 300s maxDuration in vercel.json
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse | void> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ success: false, error: 'Source ID is required' });
+  }
+
+  if (!isUuid(id)) {
+    return res.status(404).json({ success: false, error: 'Source not found' });
+  }
+
+  let source: SourceProgress | null;
+  try {
+    source = await getSourceProgress(id);
+  } catch (error) {
+    console.error('[Source Events] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+
+  if (!source) {
+    return res.status(404).json({ success: false, error: 'Source not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const started_at = Date.now();
+  let last_data = '';
+  let last_write = 0;
+
+  try {
+    while (!closed && source) {
+      const data = JSON.stringify(source);
+
+      if (data !== last_data) {
+        res.write(`event: progress\ndata: ${data}\n\n`);
+        last_data = data;
+        last_write = Date.now();
+      } else if (Date.now() - last_write >= HEARTBEAT_INTERVAL_MS) {
+        res.write(': heartbeat\n\n');
+        last_write = Date.now();
+      }
+
+      if (source.status !== 'pending' && source.status !== 'processing') {
+        res.write(`event: done\ndata: ${data}\n\n`);
+        break;
+      }
+
+      if (Date.now() - started_at >= STREAM_DURATION_MS) break;
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      if (closed) break;
+
+      source = await getSourceProgress(id);
+    }
+  } catch (error) {
+    console.error('[Source Events] Error:', error);
+    res.write(`event: error\ndata: ${JSON.stringify({ error: error instanceof Error ? error.message : 'Internal error' })}\n\n`);
+  }
+
+  res.end();
+}
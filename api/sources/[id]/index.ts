@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getSourceProgress } from '../../../lib/db.js';
+import { isUuid } from '../../../lib/sources.js';
+import type { SourcesResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// SOURCE ENDPOINT
+// =============================================================================
+// GET /api/sources/:id
+//
+// Status of one source: error message, videos discovered, per-status video
+// counts (pending, claimed, completed, skipped, failed), listing errors,
+// schedule and timestamps. Credentials are never returned.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies SourcesResponse);
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Source ID is required' } satisfies SourcesResponse);
+    }
+
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourcesResponse);
+    }
+
+    const source = await getSourceProgress(id);
+    if (!source) {
+      return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourcesResponse);
+    }
+
+    return res.status(200).json({ success: true, data: source } satisfies SourcesResponse);
+  } catch (error) {
+    console.error('[Source API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies SourcesResponse);
+  }
+}
@@ -0,0 +1,114 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getScrapeSource, setSourceSchedule, purgeSourceCredentials } from '../../../lib/db.js';
+import { isUuid } from '../../../lib/sources.js';
+import { validateSchedule } from '../../../lib/schedule.js';
+import type { ScrapeSource, SourceScheduleRequest, SourceScheduleResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// SOURCE SCHEDULE ENDPOINT
+// =============================================================================
+// GET    /api/sources/:id/schedule  - Current schedule, last and next run
+// PUT    /api/sources/:id/schedule  - Set the schedule: { interval_minutes } or { cron },
+//                                     optionally with new { cookies, password }
+// DELETE /api/sources/:id/schedule  - Stop re-running the source (and purge its
+//                                     credentials once it has settled)
+//
+// Cron expressions have 5 fields and are evaluated in UTC. The cron job
+// re-runs due sources, so schedules can't fire more often than it runs.
+//
+// Security: Protected by CRON_SECRET header
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // Verify secret in production
+  const cron_secret = process.env.CRON_SECRET;
+  const authorization = req.headers.authorization;
+
+  if (cron_secret && authorization !== `Bearer ${cron_secret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' } satisfies SourceScheduleResponse);
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Source ID is required' } satisfies SourceScheduleResponse);
+    }
+
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceScheduleResponse);
+    }
+
+    if (req.method === 'GET') {
+      const source = await getScrapeSource(id);
+      if (!source) {
+        return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceScheduleResponse);
+      }
+
+      return res.status(200).json({ success: true, data: toScheduleData(source) } satisfies SourceScheduleResponse);
+    }
+
+    if (req.method === 'PUT') {
+      const body = (req.body ?? {}) as SourceScheduleRequest;
+
+      const schedule_error = validateSchedule(body);
+      if (schedule_error) {
+        return res.status(400).json({ success: false, error: schedule_error } satisfies SourceScheduleResponse);
+      }
+
+      if (
+        (body.cookies !== undefined && typeof body.cookies !== 'string') ||
+        (body.password !== undefined && typeof body.password !== 'string')
+      ) {
+        return res.status(400).json({ success: false, error: 'cookies and password must be strings' } satisfies SourceScheduleResponse);
+      }
+
+      const source = await setSourceSchedule(
+        id,
+        { interval_minutes: body.interval_minutes ?? null, cron: body.cron ?? null },
+        body.cookies,
+        body.password
+      );
+      if (!source) {
+        return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceScheduleResponse);
+      }
+
+      return res.status(200).json({ success: true, data: toScheduleData(source) } satisfies SourceScheduleResponse);
+    }
+
+    if (req.method === 'DELETE') {
+      const source = await setSourceSchedule(id, null);
+      if (!source) {
+        return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceScheduleResponse);
+      }
+
+      await purgeSourceCredentials(id);
+
+      return res.status(200).json({ success: true, data: toScheduleData(source) } satisfies SourceScheduleResponse);
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' } satisfies SourceScheduleResponse);
+  } catch (error) {
+    console.error('[Source Schedule API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies SourceScheduleResponse);
+  }
+}
+
+function toScheduleData(source: ScrapeSource): NonNullable<SourceScheduleResponse['data']> {
+  const scheduled = source.schedule_interval_minutes !== null || source.schedule_cron !== null;
+
+  return {
+    source_id: source.id,
+    schedule: scheduled
+      ? { interval_minutes: source.schedule_interval_minutes, cron: source.schedule_cron }
+      : null,
+    last_run_at: source.last_run_at,
+    next_run_at: source.next_run_at,
+  };
+}
@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getScrapeSource, getSourceSnapshots } from '../../../lib/db.js';
+import { isUuid } from '../../../lib/sources.js';
+import type { SourceSnapshotsResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// SOURCE SNAPSHOTS ENDPOINT
+// =============================================================================
+// GET /api/sources/:id/snapshots
+//
+// Membership history of a folder or collection source, newest first.
+// Each finished listing records how many videos it saw, which were new and
+// which had left the source since the previous listing. Removals are only
+// recorded when the listing was complete.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies SourceSnapshotsResponse);
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Source ID is required' } satisfies SourceSnapshotsResponse);
+    }
+
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceSnapshotsResponse);
+    }
+
+    const source = await getScrapeSource(id);
+    if (!source) {
+      return res.status(404).json({ success: false, error: 'Source not found' } satisfies SourceSnapshotsResponse);
+    }
+
+    const snapshots = await getSourceSnapshots(id);
+
+    return res.status(200).json({
+      success: true,
+      data: snapshots,
+    } satisfies SourceSnapshotsResponse);
+  } catch (error) {
+    console.error('[Source Snapshots API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies SourceSnapshotsResponse);
+  }
+}
@@ -1,6 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { getVideos, getVideoByLoomId, getVideosBySourceId } from '../lib/db.js';
-import type { VideoResponse, LoomVideo } from '../lib/types.js';
+import { transformToLoomVideo, getRequestBaseUrl, type TransformOptions } from '../lib/videos.js';
+import type { VideoAvailability, VideoResponse } from '../lib/types.js';
 
 // =============================================================================
 // VIDEOS API ENDPOINT
@@ -9,14 +10,20 @@ import type { VideoResponse, LoomVideo } from '../lib/types.js';
 //
 // Query parameters:
 // - id: Get a specific video by Loom video ID
-// - source_id: Get all videos from a specific source (folder)
+// - source_id: Get all videos from a specific source (folder), including ones shared with other sources
+// - availability: Only videos that are available, deleted or access_revoked on Loom
+//   (removed_from_source requires source_id)
 // - limit: Number of videos to return (default: 50, max: 100)
 // - offset: Pagination offset (default: 0)
+// - words: "true" to include word-level transcript timings (omitted by default)
+// - lang: Return the transcript in this language (default: original language)
 //
 // This is a READ-ONLY endpoint for external consumers.
 // It returns scraped video data from the database.
 // =============================================================================
 
+const AVAILABILITIES: VideoAvailability[] = ['available', 'removed_from_source', 'deleted', 'access_revoked'];
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -38,23 +45,43 @@ export default async function handler(
   }
 
   try {
-    const { id, source_id, limit: limit_str, offset: offset_str } = req.query;
+    const { id, source_id, limit: limit_str, offset: offset_str, words, lang, availability: availability_param } = req.query;
+    const options: TransformOptions = {
+      include_words: words === 'true',
+      lang: typeof lang === 'string' && lang ? lang : undefined,
+      base_url: getRequestBaseUrl(req),
+    };
+
+    const availability = availability_param as VideoAvailability | undefined;
+    if (availability !== undefined && !AVAILABILITIES.includes(availability)) {
+      return res.status(400).json({
+        success: false,
+        error: `availability must be one of: ${AVAILABILITIES.join(', ')}`,
+      } satisfies VideoResponse);
+    }
 
     // Get single video by Loom ID
     if (id && typeof id === 'string') {
-      return await handleGetVideoById(id, res);
+      return await handleGetVideoById(id, options, res);
     }
 
     // Get videos by source ID (folder)
     if (source_id && typeof source_id === 'string') {
-      return await handleGetVideosBySource(source_id, res);
+      return await handleGetVideosBySource(source_id, availability, options, res);
+    }
+
+    if (availability === 'removed_from_source') {
+      return res.status(400).json({
+        success: false,
+        error: 'availability=removed_from_source requires source_id',
+      } satisfies VideoResponse);
     }
 
     // List all videos with pagination
     const limit = Math.min(parseInt(limit_str as string) || 50, 100);
     const offset = parseInt(offset_str as string) || 0;
 
-    return await handleListVideos(limit, offset, res);
+    return await handleListVideos(limit, offset, availability, options, res);
   } catch (error) {
     console.error('[Videos API] Error:', error);
     return res.status(500).json({
@@ -70,6 +97,7 @@ export default async function handler(
 
 async function handleGetVideoById(
   loom_video_id: string,
+  options: TransformOptions,
   res: VercelResponse
 ): Promise<VercelResponse> {
   const persisted = await getVideoByLoomId(loom_video_id);
@@ -82,7 +110,7 @@ async function handleGetVideoById(
   }
 
   // Transform persisted video to API response format
-  const video = transformToLoomVideo(persisted);
+  const video = transformToLoomVideo(persisted, options);
 
   return res.status(200).json({
     success: true,
@@ -92,11 +120,13 @@ async function handleGetVideoById(
 
 async function handleGetVideosBySource(
   source_id: string,
+  availability: VideoAvailability | undefined,
+  options: TransformOptions,
   res: VercelResponse
 ): Promise<VercelResponse> {
-  const persisted_videos = await getVideosBySourceId(source_id);
+  const persisted_videos = await getVideosBySourceId(source_id, availability);
 
-  const videos = persisted_videos.map(transformToLoomVideo);
+  const videos = persisted_videos.map((persisted) => transformToLoomVideo(persisted, options));
 
   return res.status(200).json({
     success: true,
@@ -108,11 +138,13 @@ async function handleGetVideosBySource(
 async function handleListVideos(
   limit: number,
   offset: number,
+  availability: VideoAvailability | undefined,
+  options: TransformOptions,
   res: VercelResponse
 ): Promise<VercelResponse> {
-  const { videos: persisted_videos, total } = await getVideos(limit, offset);
+  const { videos: persisted_videos, total } = await getVideos(limit, offset, availability);
 
-  const videos = persisted_videos.map(transformToLoomVideo);
+  const videos = persisted_videos.map((persisted) => transformToLoomVideo(persisted, options));
 
   return res.status(200).json({
     success: true,
@@ -120,43 +152,3 @@ async function handleListVideos(
     total,
   } satisfies VideoResponse);
 }
-
-// =============================================================================
-// HELPER FUNCTIONS
-// =============================================================================
-
-/**
- * Transform persisted video from database to API response format
- * This maintains compatibility with the original Loom video format
- */
-function transformToLoomVideo(persisted: {
-  loom_video_id: string;
-  title: string;
-  duration: number;
-  thumbnail: string | null;
-  description: string | null;
-  owner_name: string | null;
-  owner_avatar_url: string | null;
-  loom_created_at: string | null;
-  reactions: unknown;
-  comments: unknown;
-  transcript: unknown;
-  chapters: unknown;
-  tags: unknown;
-}): LoomVideo {
-  return {
-    id: persisted.loom_video_id,
-    title: persisted.title,
-    duration: persisted.duration,
-    thumbnail: persisted.thumbnail,
-    description: persisted.description,
-    owner_name: persisted.owner_name,
-    owner_avatar_url: persisted.owner_avatar_url,
-    created_at: persisted.loom_created_at,
-    reactions: (persisted.reactions as LoomVideo['reactions']) || [],
-    comments: (persisted.comments as LoomVideo['comments']) || [],
-    transcript: (persisted.transcript as LoomVideo['transcript']) || null,
-    chapters: (persisted.chapters as LoomVideo['chapters']) || null,
-    tags: (persisted.tags as string[]) || [],
-  };
-}
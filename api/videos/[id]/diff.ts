@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getVideoRevision, getVideoRevisionAt } from '../../../lib/db.js';
+import { diffVideos } from '../../../lib/revisions.js';
+import type { VideoDiffResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// VIDEO DIFF ENDPOINT
+// =============================================================================
+// GET /api/videos/:id/diff
+//
+// Query parameters:
+// - from: Older revision number (default: the revision before "to")
+// - to: Newer revision number (default: latest)
+//
+// Returns which fields changed between the two revisions,
+// e.g. "3 comments added" or "chapter 2 renamed".
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies VideoDiffResponse);
+  }
+
+  try {
+    const { id, from: from_str, to: to_str } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Video ID is required' } satisfies VideoDiffResponse);
+    }
+
+    let to = parseInt(to_str as string) || 0;
+    if (!to) {
+      const latest = await getVideoRevisionAt(id, new Date());
+      to = latest?.revision ?? 0;
+    }
+    const from = parseInt(from_str as string) || to - 1;
+
+    if (from < 1 || to < 1) {
+      return res.status(404).json({
+        success: false,
+        error: 'At least two revisions are required to diff',
+      } satisfies VideoDiffResponse);
+    }
+
+    const [from_revision, to_revision] = await Promise.all([
+      getVideoRevision(id, from),
+      getVideoRevision(id, to),
+    ]);
+
+    if (!from_revision || !to_revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found' } satisfies VideoDiffResponse);
+    }
+
+    return res.status(200).json({
+      success: true,
+      video_id: id,
+      from,
+      to,
+      changes: diffVideos(from_revision.snapshot, to_revision.snapshot),
+    } satisfies VideoDiffResponse);
+  } catch (error) {
+    console.error('[Diff API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies VideoDiffResponse);
+  }
+}
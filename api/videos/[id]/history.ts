@@ -0,0 +1,100 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getVideoRevisions, getVideoRevision, getVideoRevisionAt } from '../../../lib/db.js';
+import { diffVideos } from '../../../lib/revisions.js';
+import type { VideoHistoryResponse, VideoHistoryEntry } from '../../../lib/types.js';
+
+// =============================================================================
+// VIDEO HISTORY ENDPOINT
+// =============================================================================
+// GET /api/videos/:id/history
+//
+// Query parameters:
+// - revision: Get the full snapshot of a specific revision number
+// - at: Get the snapshot that was current at an ISO 8601 date/time
+//
+// Without parameters, lists every revision with the changes it introduced.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies VideoHistoryResponse);
+  }
+
+  try {
+    const { id, revision: revision_str, at } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Video ID is required' } satisfies VideoHistoryResponse);
+    }
+
+    // Single revision by number
+    if (revision_str) {
+      const revision_number = parseInt(revision_str as string);
+      if (!revision_number) {
+        return res.status(400).json({ success: false, error: 'Invalid revision number' } satisfies VideoHistoryResponse);
+      }
+
+      const revision = await getVideoRevision(id, revision_number);
+      if (!revision) {
+        return res.status(404).json({ success: false, error: 'Revision not found' } satisfies VideoHistoryResponse);
+      }
+
+      return res.status(200).json({ success: true, data: revision } satisfies VideoHistoryResponse);
+    }
+
+    // Revision current at a point in time
+    if (at) {
+      const at_date = new Date(at as string);
+      if (isNaN(at_date.getTime())) {
+        return res.status(400).json({ success: false, error: 'Invalid date for "at"' } satisfies VideoHistoryResponse);
+      }
+
+      const revision = await getVideoRevisionAt(id, at_date);
+      if (!revision) {
+        return res.status(404).json({ success: false, error: 'No revision exists at that date' } satisfies VideoHistoryResponse);
+      }
+
+      return res.status(200).json({ success: true, data: revision } satisfies VideoHistoryResponse);
+    }
+
+    // Full history
+    const revisions = await getVideoRevisions(id);
+    if (revisions.length === 0) {
+      return res.status(404).json({ success: false, error: 'No history for this video' } satisfies VideoHistoryResponse);
+    }
+
+    const entries: VideoHistoryEntry[] = revisions.map((revision, index) => ({
+      revision: revision.revision,
+      content_hash: revision.content_hash,
+      created_at: revision.created_at,
+      changes: index === 0 ? [] : diffVideos(revisions[index - 1].snapshot, revision.snapshot),
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data: entries,
+      total: entries.length,
+    } satisfies VideoHistoryResponse);
+  } catch (error) {
+    console.error('[History API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies VideoHistoryResponse);
+  }
+}
@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { pipeline } from 'node:stream/promises';
+import { getVideoByLoomId } from '../../../lib/db.js';
+import { getStorage } from '../../../lib/storage/index.js';
+
+// =============================================================================
+// THUMBNAIL ENDPOINT
+// =============================================================================
+// GET /api/videos/:id/thumbnail
+//
+// Query parameters:
+// - animated: "true" for the animated preview GIF
+//
+// Serves the thumbnail copy stored during the scrape. If no copy was stored,
+// redirects to the original Loom URL.
+// =============================================================================
+
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse | void> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, animated } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Video ID is required' });
+    }
+
+    const video = await getVideoByLoomId(id);
+    if (!video) {
+      return res.status(404).json({ success: false, error: 'Video not found' });
+    }
+
+    const is_animated = animated === 'true';
+    const storage_key = is_animated ? video.animated_thumbnail_storage_key : video.thumbnail_storage_key;
+    const content_type = is_animated ? video.animated_thumbnail_content_type : video.thumbnail_content_type;
+    const source_url = is_animated ? video.animated_thumbnail : video.thumbnail;
+
+    const storage = getStorage();
+    const stored = storage && storage_key ? await storage.get(storage_key) : null;
+
+    if (!stored) {
+      if (source_url) {
+        return res.redirect(302, source_url);
+      }
+      return res.status(404).json({ success: false, error: 'Thumbnail not found' });
+    }
+
+    res.status(200);
+    res.setHeader('Content-Type', content_type || 'application/octet-stream');
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    if (stored.size !== null) {
+      res.setHeader('Content-Length', String(stored.size));
+    }
+
+    await pipeline(stored.body, res);
+  } catch (error) {
+    console.error('[Thumbnail API] Error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
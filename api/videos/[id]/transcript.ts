@@ -0,0 +1,97 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getVideoByLoomId } from '../../../lib/db.js';
+import {
+  formatTranscript,
+  selectTranscriptTrack,
+  TRANSCRIPT_FORMATS,
+  TRANSCRIPT_CONTENT_TYPES,
+} from '../../../lib/captions.js';
+import type { TranscriptFormat } from '../../../lib/types.js';
+
+// =============================================================================
+// TRANSCRIPT EXPORT ENDPOINT
+// =============================================================================
+// GET /api/videos/:id/transcript
+//
+// Query parameters:
+// - format: srt | vtt | txt | md (default: txt)
+// - lang: Language code of the transcript/caption track (default: original language)
+//
+// Cue end times are derived from the next segment and the video duration.
+// Markdown output is grouped under chapter headings when chapters exist.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // CORS headers for external consumers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, format: format_param, lang } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Video ID is required' });
+    }
+
+    if (format_param !== undefined && typeof format_param !== 'string') {
+      return res.status(400).json({ success: false, error: 'Format can only be given once' });
+    }
+
+    const format = (format_param || 'txt').toLowerCase() as TranscriptFormat;
+    if (!TRANSCRIPT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${TRANSCRIPT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const video = await getVideoByLoomId(id);
+    if (!video) {
+      return res.status(404).json({ success: false, error: 'Video not found' });
+    }
+
+    let segments = video.transcript;
+    let language: string | null = null;
+    if (lang && typeof lang === 'string') {
+      const track = selectTranscriptTrack(video.transcripts || [], lang);
+      if (!track) {
+        return res.status(404).json({ success: false, error: `No transcript in language "${lang}"` });
+      }
+      segments = track.segments;
+      language = track.language;
+    }
+
+    if (!segments || segments.length === 0) {
+      return res.status(404).json({ success: false, error: 'Video has no transcript' });
+    }
+
+    const body = formatTranscript(segments, format, {
+      title: video.title,
+      duration: video.duration,
+      chapters: video.chapters,
+    });
+
+    res.setHeader('Content-Type', TRANSCRIPT_CONTENT_TYPES[format]);
+    const filename = language ? `${id}.${language}.${format}` : `${id}.${format}`;
+    res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+    return res.status(200).send(body);
+  } catch (error) {
+    console.error('[Transcript API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
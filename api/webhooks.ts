@@ -0,0 +1,119 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  createWebhookSubscription,
+  getWebhookSubscriptions,
+  deleteWebhookSubscription,
+} from '../lib/db.js';
+import { WEBHOOK_EVENTS, generateWebhookSecret } from '../lib/webhooks.js';
+import { isUuid } from '../lib/sources.js';
+import type { WebhookRequest, WebhookResponse } from '../lib/types.js';
+
+// =============================================================================
+// WEBHOOKS API ENDPOINT
+// =============================================================================
+// GET    /api/webhooks          - List subscriptions
+// POST   /api/webhooks          - Create a subscription
+// DELETE /api/webhooks?id=<id>  - Delete a subscription and its delivery log
+//
+// Events: source.completed, source.failed, video.scraped, video.failed,
+// video.changed, video.new_comments
+//
+// The signing secret is only returned in the POST response.
+// Delivery logs are at /api/webhooks/:id/deliveries.
+//
+// Security: Protected by CRON_SECRET header
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // Verify secret in production
+  const cron_secret = process.env.CRON_SECRET;
+  const authorization = req.headers.authorization;
+
+  if (cron_secret && authorization !== `Bearer ${cron_secret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' } satisfies WebhookResponse);
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const subscriptions = await getWebhookSubscriptions();
+      return res.status(200).json({ success: true, data: subscriptions } satisfies WebhookResponse);
+    }
+
+    if (req.method === 'POST') {
+      return await handleCreate(req.body as WebhookRequest, res);
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ success: false, error: 'Subscription ID is required' } satisfies WebhookResponse);
+      }
+
+      if (!isUuid(id)) {
+        return res.status(404).json({ success: false, error: 'Subscription not found' } satisfies WebhookResponse);
+      }
+
+      const deleted = await deleteWebhookSubscription(id);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Subscription not found' } satisfies WebhookResponse);
+      }
+
+      return res.status(200).json({ success: true } satisfies WebhookResponse);
+    }
+
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies WebhookResponse);
+  } catch (error) {
+    console.error('[Webhooks API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies WebhookResponse);
+  }
+}
+
+// =============================================================================
+// HANDLER FUNCTIONS
+// =============================================================================
+
+async function handleCreate(body: WebhookRequest, res: VercelResponse): Promise<VercelResponse> {
+  const { url, events, secret, description } = body || ({} as WebhookRequest);
+
+  if (!url || typeof url !== 'string' || !/^https?:\/\//.test(url)) {
+    return res.status(400).json({ success: false, error: 'A valid http(s) URL is required' } satisfies WebhookResponse);
+  }
+
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((event) => !WEBHOOK_EVENTS.includes(event))
+  ) {
+    return res.status(400).json({
+      success: false,
+      error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`,
+    } satisfies WebhookResponse);
+  }
+
+  if (secret !== undefined && (typeof secret !== 'string' || !secret)) {
+    return res.status(400).json({ success: false, error: 'Secret must be a non-empty string' } satisfies WebhookResponse);
+  }
+
+  if (description !== undefined && typeof description !== 'string') {
+    return res.status(400).json({ success: false, error: 'Description must be a string' } satisfies WebhookResponse);
+  }
+
+  const signing_secret = secret || generateWebhookSecret();
+  const subscription = await createWebhookSubscription(url, [...new Set(events)], signing_secret, description);
+
+  return res.status(201).json({
+    success: true,
+    data: subscription,
+    secret: signing_secret,
+  } satisfies WebhookResponse);
+}
@@ -0,0 +1,68 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getWebhookDeliveries } from '../../../lib/db.js';
+import { isUuid } from '../../../lib/sources.js';
+import type { WebhookDeliveriesResponse } from '../../../lib/types.js';
+
+// =============================================================================
+// WEBHOOK DELIVERIES ENDPOINT
+// =============================================================================
+// GET /api/webhooks/:id/deliveries
+//
+// Query parameters:
+// - limit: Number of deliveries to return (default: 50, max: 100)
+// - offset: Pagination offset (default: 0)
+//
+// Delivery log for a subscription, newest first: event, payload data,
+// status, attempt count and the last response status or error.
+//
+// Security: Protected by CRON_SECRET header
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  // Verify secret in production
+  const cron_secret = process.env.CRON_SECRET;
+  const authorization = req.headers.authorization;
+
+  if (cron_secret && authorization !== `Bearer ${cron_secret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' } satisfies WebhookDeliveriesResponse);
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+    } satisfies WebhookDeliveriesResponse);
+  }
+
+  try {
+    const { id, limit: limit_str, offset: offset_str } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ success: false, error: 'Subscription ID is required' } satisfies WebhookDeliveriesResponse);
+    }
+
+    if (!isUuid(id)) {
+      return res.status(404).json({ success: false, error: 'Subscription not found' } satisfies WebhookDeliveriesResponse);
+    }
+
+    const limit = Math.min(parseInt(limit_str as string) || 50, 100);
+    const offset = parseInt(offset_str as string) || 0;
+
+    const { deliveries, total } = await getWebhookDeliveries(id, limit, offset);
+
+    return res.status(200).json({
+      success: true,
+      data: deliveries,
+      total,
+    } satisfies WebhookDeliveriesResponse);
+  } catch (error) {
+    console.error('[Webhook Deliveries API] Error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    } satisfies WebhookDeliveriesResponse);
+  }
+}
@@ -1,22 +1,60 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { fetchFolderVideos, scrapeVideo } from '../../lib/loom/index.js';
-import { updateScrapeSourceStatus, createVideoJob, markJobProcessing, markJobCompleted, markJobFailed, saveVideo, getVideoByLoomId } from '../../lib/db.js';
-import { verifyQStashSignature, publishFolderJob, type FolderJobPayload } from '../../lib/qstash.js';
+import { fetchNextListingPage, createListingState, buildListing } from '../../lib/loom/index.js';
+import {
+  getScrapeSource,
+  saveListingProgress,
+  updateScrapeSourceStatus,
+  claimSourceVideos,
+  releaseSourceVideos,
+  getSourceQueueCounts,
+  settleScrapeSource,
+  recordSourceSnapshot,
+  purgeSourceCredentials,
+  failExpiredSourceVideos,
+} from '../../lib/db.js';
+import { scheduleSettleChecks } from '../../lib/sources.js';
+import { decryptStoredSecret } from '../../lib/crypto.js';
+import { emitSourceSettled } from '../../lib/webhooks.js';
+import { resolveFreshness } from '../../lib/freshness.js';
+import {
+  verifyQStashSignature,
+  publishFolderJob,
+  publishVideoJobs,
+  VIDEO_BATCH_LIMIT,
+  type FolderJobPayload,
+} from '../../lib/qstash.js';
 
 // =============================================================================
 // FOLDER WORKER
 // =============================================================================
 // POST /api/worker/folder
 //
-// Processes a folder using chained execution:
-// 1. First call: Fetches all video IDs, processes a batch, chains to next batch
-// 2. Subsequent calls: Receives video_ids, processes batch, chains if more remain
+// Expands a folder, a whole library, shared-with-me list or space into video
+// jobs using chained execution. The payload only carries the source_id:
+// 1. Each call lists the next pages while fewer than a batch of videos are
+//    queued, storing Loom's endCursor on the source so listing resumes
+// 2. Discovered videos are queued in source_video_queue; each call claims
+//    the next slice and fans it out to /api/worker/video in one QStash batch
+// 3. It chains until nothing is queued and the listing is finished
 //
-// This allows processing unlimited videos without timeout issues.
+// The video worker records each video's result on the queue, and the last
+// result settles the source as completed, partially_failed or failed.
+//
+// Recursive folder jobs list sub-folders too (up to max_depth) and record the
+// sub-folder path each video was found under on its job.
+//
+// Cookies are decrypted from the source for listing only; video jobs carry
+// the source_id and the video worker looks its credentials up itself.
+//
+// Once everything is published, a delayed check re-runs this worker after the
+// result timeout until the source settles, failing videos that never reported
+// back (e.g. the video worker timed out). Video sources get the same check.
+//
+// A chain that dies is picked up again by the cron job.
 // =============================================================================
 
-const BATCH_SIZE = 10; // Process 10 videos concurrently
-const VIDEOS_PER_EXECUTION = 20; // Videos per QStash call (2 batches of 3)
+const VIDEOS_PER_EXECUTION = VIDEO_BATCH_LIMIT; // Video jobs published per QStash call
+const PAGES_PER_EXECUTION = 5; // Listing pages fetched per QStash call
 
 export default async function handler(
   req: VercelRequest,
@@ -30,170 +68,148 @@ export default async function handler(
     // Verify QStash signature
     const signature = req.headers['upstash-signature'] as string | undefined;
     const raw_body = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
-    
+
     const is_valid = await verifyQStashSignature(signature, raw_body);
     if (!is_valid) {
       return res.status(401).json({ error: 'Invalid signature' });
     }
 
     // Parse payload
-    const payload: FolderJobPayload = typeof req.body === 'string' 
-      ? JSON.parse(req.body) 
+    const payload: FolderJobPayload = typeof req.body === 'string'
+      ? JSON.parse(req.body)
       : req.body;
 
-    const { folder_id, source_id, cookies, video_ids: incoming_video_ids } = payload;
+    const { source_id } = payload;
 
-    if (!folder_id) {
-      return res.status(400).json({ error: 'folder_id is required' });
+    const source = await getScrapeSource(source_id);
+    if (!source) {
+      return res.status(404).json({ error: 'Source not found' });
     }
 
-    let all_video_ids: string[];
-
-    // First call: fetch video IDs from folder
-    if (!incoming_video_ids) {
-      console.log(`[FolderWorker] Initial call for folder: ${folder_id}`);
-      
-      const result = await fetchFolderVideos(folder_id, cookies || undefined);
+    // A duplicate chain link can arrive after the source has settled
+    if (source.status !== 'pending' && source.status !== 'processing') {
+      return res.status(200).json({ success: true, status: source.status });
+    }
 
-      if (!result.success) {
-        await updateScrapeSourceStatus(source_id, 'failed', result.error);
-        return res.status(200).json({ success: false, error: result.error });
-      }
+    // Videos that never reported back count as failed, without waiting for the cron job
+    await failExpiredSourceVideos(source_id);
 
-      const videos = result.videos || [];
-      
-      if (videos.length === 0) {
-        await updateScrapeSourceStatus(source_id, 'completed');
-        return res.status(200).json({ success: true, videos_found: 0 });
+    // Video sources only come here for their settle check
+    if (source.type === 'video') {
+      const settled = await settleScrapeSource(source_id);
+      if (settled) {
+        await emitSourceSettled(settled);
+      } else {
+        await scheduleSettleChecks([source_id]);
       }
 
-      all_video_ids = videos.map(v => v.id);
-      console.log(`[FolderWorker] Found ${all_video_ids.length} videos to process`);
-    } else {
-      // Subsequent call: use provided video IDs
-      all_video_ids = incoming_video_ids;
-      console.log(`[FolderWorker] Continuing with ${all_video_ids.length} remaining videos`);
+      return res.status(200).json({ success: true, status: settled?.status ?? 'waiting' });
     }
 
-    // Split into current batch and remaining
-    const current_batch = all_video_ids.slice(0, VIDEOS_PER_EXECUTION);
-    const remaining = all_video_ids.slice(VIDEOS_PER_EXECUTION);
-
-    // Process current batch
-    const start_time = Date.now();
-    let processed = 0;
-    let skipped = 0;
-    let failed = 0;
-
-    for (let i = 0; i < current_batch.length; i += BATCH_SIZE) {
-      const batch = current_batch.slice(i, i + BATCH_SIZE);
-      
-      const results = await Promise.allSettled(
-        batch.map(video_id => processVideo(video_id, source_id, cookies))
-      );
+    const { archive_media } = source;
+    const cookies = source.cookies ? decryptStoredSecret(source.cookies) : undefined;
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          if (result.value.skipped) skipped++;
-          else if (result.value.success) processed++;
-          else failed++;
-        } else {
-          failed++;
-        }
-      }
+    const target = buildListing(source.type, source.url);
+    if (!target) {
+      return res.status(400).json({ error: `Source is not a valid Loom ${source.type} URL` });
     }
 
-    const duration_ms = Date.now() - start_time;
-    const duration_s = (duration_ms / 1000).toFixed(2);
-    console.log(`[FolderWorker] Batch done: processed=${processed}, skipped=${skipped}, failed=${failed} (${duration_s}s)`);
-
-    // Chain to next batch if there are remaining videos
-    if (remaining.length > 0) {
-      console.log(`[FolderWorker] Chaining to process ${remaining.length} more videos`);
-      
-      await publishFolderJob({
-        folder_id,
-        source_id,
-        cookies,
-        video_ids: remaining,
-      });
+    const label = target.folder_id || [target.source, target.source_value].filter(Boolean).join(' ');
 
-      return res.status(200).json({ 
-        success: true, 
-        processed,
-        skipped,
-        failed,
-        remaining: remaining.length,
-        duration_ms,
-        status: 'chained',
-      });
-    }
+    // Page through the listing only while there isn't a full batch queued,
+    // storing Loom's endCursor so the next invocation resumes where this one stopped
+    let state =
+      source.listing_state ?? createListingState(target, source.recursive, source.max_depth ?? undefined);
+    let { pending } = await getSourceQueueCounts(source_id);
+    let pages_fetched = 0;
 
-    // All done
-    await updateScrapeSourceStatus(source_id, 'completed');
-    
-    return res.status(200).json({ 
-      success: true, 
-      processed,
-      skipped,
-      failed,
-      remaining: 0,
-      duration_ms,
-      status: 'completed',
-    });
+    while (state.pending.length > 0 && pending < VIDEOS_PER_EXECUTION && pages_fetched < PAGES_PER_EXECUTION) {
+      console.log(`[FolderWorker] Listing next page for: ${label}`);
 
-  } catch (error) {
-    console.error('[FolderWorker] Error:', error);
-    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
-  }
-}
-
-// =============================================================================
-// HELPER
-// =============================================================================
+      const page = await fetchNextListingPage(state, cookies);
 
-interface ProcessResult {
-  success: boolean;
-  skipped?: boolean;
-  error?: string;
-}
+      if (!page.success) {
+        await updateScrapeSourceStatus(source_id, 'failed', page.error);
+        await purgeSourceCredentials(source_id);
+        await emitSourceSettled({ ...source, status: 'failed', error_message: page.error || null });
+        return res.status(200).json({ success: false, error: page.error });
+      }
 
-async function processVideo(
-  loom_video_id: string,
-  source_id: string,
-  cookies: string | null
-): Promise<ProcessResult> {
-  try {
-    // Check if recently scraped
-    const existing = await getVideoByLoomId(loom_video_id);
-    if (existing) {
-      const hours_ago = (Date.now() - new Date(existing.updated_at).getTime()) / (1000 * 60 * 60);
-      if (hours_ago < 24) {
-        return { success: true, skipped: true };
+      state = page.state;
+      const queued = await saveListingProgress(source_id, state, page.videos, page.partial_error);
+      pending += queued;
+      pages_fetched++;
+      console.log(`[FolderWorker] Queued ${queued} new videos${page.done ? ' - listing complete' : ''}`);
+
+      // Compare the finished listing with earlier ones to find videos that left the source
+      if (page.done) {
+        const snapshot = await recordSourceSnapshot(source_id);
+        if (snapshot && snapshot.removed.length > 0) {
+          console.log(`[FolderWorker] ${snapshot.removed.length} videos left ${label}`);
+        }
       }
     }
 
-    // Create job record
-    const job = await createVideoJob(loom_video_id, source_id, cookies || undefined);
-    await markJobProcessing(job.id);
+    const listing_done = state.pending.length === 0;
+
+    // Fan the next slice out to the video worker
+    const slice = await claimSourceVideos(source_id, VIDEOS_PER_EXECUTION);
+    const freshness = resolveFreshness(source);
+
+    try {
+      await publishVideoJobs(
+        slice.map((item) => ({
+          loom_video_id: item.loom_video_id,
+          source_id,
+          archive_media,
+          folder_path: item.folder_path ?? undefined,
+          freshness,
+        }))
+      );
+    } catch (error) {
+      // Unclaim so the retried folder job publishes them again
+      await releaseSourceVideos(source_id, slice.map((item) => item.loom_video_id));
+      throw error;
+    }
+
+    console.log(`[FolderWorker] Published ${slice.length} video jobs`);
 
-    // Scrape
-    const video_data = await scrapeVideo(loom_video_id, cookies || undefined);
+    // Chain to the next slice if there are remaining videos or pages
+    const counts = await getSourceQueueCounts(source_id);
 
-    if (!video_data) {
-      await markJobFailed(job.id, 'Scrape failed');
-      return { success: false, error: 'Scrape failed' };
+    if (counts.pending > 0 || !listing_done) {
+      console.log(`[FolderWorker] Chaining to publish ${counts.pending} more videos${listing_done ? '' : ' and keep listing'}`);
+
+      await publishFolderJob({ source_id });
+
+      return res.status(200).json({
+        success: true,
+        published: slice.length,
+        remaining: counts.pending,
+        listing_done,
+        status: 'chained',
+      });
     }
 
-    // Save
-    await saveVideo(video_data);
-    await markJobCompleted(job.id);
+    // Everything is published - the source settles when the last video reports back,
+    // which may already have happened (or there were no videos at all)
+    const settled = await settleScrapeSource(source_id);
+    if (settled) {
+      await emitSourceSettled(settled);
+    } else {
+      await scheduleSettleChecks([source_id]);
+    }
 
-    console.log(`[FolderWorker] Scraped: ${loom_video_id}`);
-    return { success: true };
+    return res.status(200).json({
+      success: true,
+      published: slice.length,
+      remaining: 0,
+      listing_done,
+      status: settled?.status ?? 'dispatched',
+    });
 
   } catch (error) {
-    console.error(`[FolderWorker] Error processing ${loom_video_id}:`, error);
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    console.error('[FolderWorker] Error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
   }
 }
@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { scrapeVideo } from '../../lib/loom/index.js';
+import { scrapeVideo, archiveVideoMedia, archiveThumbnails, checkVideoAvailability } from '../../lib/loom/index.js';
 import {
   createVideoJob,
   markJobProcessing,
@@ -7,8 +7,17 @@ import {
   markJobFailed,
   saveVideo,
   getVideoByLoomId,
+  getVideoCredentials,
+  saveVideoMedia,
+  saveVideoThumbnails,
+  recordSourceVideoResult,
+  markVideoUnavailable,
+  settleScrapeSource,
 } from '../../lib/db.js';
-import { verifyQStashSignature, type VideoJobPayload } from '../../lib/qstash.js';
+import { getStorage } from '../../lib/storage/index.js';
+import { emitWebhookEvent, emitVideoEvents, emitSourceSettled } from '../../lib/webhooks.js';
+import { verifyQStashSignature, VIDEO_RETRIES, type VideoJobPayload } from '../../lib/qstash.js';
+import { getGlobalFreshness, shouldScrape } from '../../lib/freshness.js';
 
 // =============================================================================
 // VIDEO WORKER
@@ -16,7 +25,16 @@ import { verifyQStashSignature, type VideoJobPayload } from '../../lib/qstash.js
 // POST /api/worker/video
 //
 // Called by QStash to process a single video.
-// Scrapes video data and saves to database.
+// Scrapes video data and saves to database. Videos already stored are
+// skipped unless the job's freshness policy (default: the global policy)
+// says they need a new scrape.
+//
+// The payload carries no credentials: cookies and passwords are decrypted
+// from the video's source, or its job row for source-less jobs.
+//
+// The result is recorded against the video's source; the last result settles
+// the source. Errors return 500 so QStash retries, and the last attempt
+// records the video as failed.
 // =============================================================================
 
 export default async function handler(
@@ -27,6 +45,8 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  let payload: VideoJobPayload | undefined;
+
   try {
     // Verify QStash signature
     const signature = req.headers['upstash-signature'] as string | undefined;
@@ -38,11 +58,11 @@ export default async function handler(
     }
 
     // Parse payload
-    const payload: VideoJobPayload = typeof req.body === 'string' 
-      ? JSON.parse(req.body) 
-      : req.body;
+    payload = (typeof req.body === 'string'
+      ? JSON.parse(req.body)
+      : req.body) as VideoJobPayload;
 
-    const { loom_video_id, source_id, cookies } = payload;
+    const { loom_video_id, source_id, archive_media = false, folder_path, freshness = getGlobalFreshness() } = payload;
 
     if (!loom_video_id) {
       return res.status(400).json({ error: 'loom_video_id is required' });
@@ -50,37 +70,134 @@ export default async function handler(
 
     console.log(`[VideoWorker] Processing: ${loom_video_id}`);
 
-    // Check if recently scraped (within 24 hours)
+    // Skip stored videos the freshness policy considers fresh, unless media still needs archiving
     const existing = await getVideoByLoomId(loom_video_id);
-    if (existing) {
-      const hours_ago = (Date.now() - new Date(existing.updated_at).getTime()) / (1000 * 60 * 60);
-      if (hours_ago < 24) {
-        console.log(`[VideoWorker] Skipping ${loom_video_id} - scraped ${hours_ago.toFixed(1)}h ago`);
-        return res.status(200).json({ success: true, skipped: true });
-      }
+    if (existing && !shouldScrape(existing, freshness, archive_media)) {
+      console.log(`[VideoWorker] Skipping ${loom_video_id} - fresh under ${freshness.mode} policy (updated ${existing.updated_at})`);
+      await reportSourceResult(source_id, loom_video_id, 'skipped');
+      return res.status(200).json({ success: true, skipped: true });
     }
 
-    // Create/update job record
-    const job = await createVideoJob(loom_video_id, source_id || undefined, cookies || undefined);
+    // Resolve cookies and the password for password-protected videos
+    const { cookies, password } = await getVideoCredentials(loom_video_id, source_id);
+
+    // Create/update job record - credentials stay on the source (or the existing job row)
+    const job = await createVideoJob(
+      loom_video_id,
+      source_id || undefined,
+      undefined,
+      undefined,
+      archive_media,
+      folder_path
+    );
     await markJobProcessing(job.id);
 
     // Scrape the video
-    const video_data = await scrapeVideo(loom_video_id, cookies || undefined);
+    const scraped = await scrapeVideo(loom_video_id, cookies || undefined, password || undefined);
+
+    if (!scraped) {
+      // Find out whether the video is gone for good, so its stored copy isn't treated as live
+      const availability = await checkVideoAvailability(loom_video_id, cookies || undefined, password || undefined);
+      const unavailable = availability === 'deleted' || availability === 'access_revoked' ? availability : null;
+
+      if (unavailable && (await markVideoUnavailable(loom_video_id, unavailable))) {
+        console.log(`[VideoWorker] Marked ${loom_video_id} as ${unavailable}`);
+      }
 
-    if (!video_data) {
-      await markJobFailed(job.id, 'Failed to scrape - may be private or unavailable');
+      const error_message = unavailable
+        ? `Video is no longer available (${unavailable})`
+        : 'Failed to scrape - may be private or unavailable';
+      await markJobFailed(job.id, error_message);
+      await emitWebhookEvent('video.failed', {
+        video_id: loom_video_id,
+        source_id,
+        error: error_message,
+        availability,
+      });
+      await reportSourceResult(source_id, loom_video_id, 'failed', error_message);
       return res.status(200).json({ success: false, error: 'Scrape failed' });
     }
 
+    // A failed comments or reactions request keeps the stored rows rather than reporting them all removed
+    const { all_comments, all_reactions, ...video_data } = scraped;
+    if (!all_comments && existing) {
+      video_data.comments = existing.comments;
+    }
+    if (!all_reactions && existing) {
+      video_data.reactions = existing.reactions;
+    }
+
     // Save to database
-    await saveVideo(video_data);
+    await saveVideo(video_data, all_comments, all_reactions);
+
+    const storage = getStorage();
+
+    // Copy thumbnails off Loom's expiring CDN URLs
+    if (storage) {
+      try {
+        await saveVideoThumbnails(loom_video_id, await archiveThumbnails(video_data, storage));
+      } catch (error) {
+        console.error(`[VideoWorker] Thumbnail storage failed for ${loom_video_id}:`, error);
+      }
+    }
+
+    // Archive the media file - a failure here doesn't fail the metadata scrape
+    if (archive_media && storage) {
+      try {
+        const media = await archiveVideoMedia(loom_video_id, storage, cookies || undefined, password || undefined);
+        if (media) await saveVideoMedia(loom_video_id, media);
+      } catch (error) {
+        console.error(`[VideoWorker] Media archival failed for ${loom_video_id}:`, error);
+      }
+    } else if (archive_media) {
+      console.warn(`[VideoWorker] Skipping media archival for ${loom_video_id} - STORAGE_BACKEND is not set`);
+    }
+
     await markJobCompleted(job.id);
+    await emitVideoEvents(existing?.raw_data ?? null, video_data, source_id);
+    await reportSourceResult(source_id, loom_video_id, 'completed');
 
     console.log(`[VideoWorker] Done: ${loom_video_id} - "${video_data.title}"`);
     return res.status(200).json({ success: true, video_id: loom_video_id });
 
   } catch (error) {
     console.error('[VideoWorker] Error:', error);
-    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+    const error_message = error instanceof Error ? error.message : 'Internal error';
+
+    // QStash counts retries in the Upstash-Retried header - nothing will retry the last attempt
+    const retried = parseInt(req.headers['upstash-retried'] as string) || 0;
+    if (payload?.loom_video_id && retried >= VIDEO_RETRIES) {
+      try {
+        await reportSourceResult(payload.source_id, payload.loom_video_id, 'failed', error_message);
+      } catch (report_error) {
+        console.error('[VideoWorker] Failed to record result:', report_error);
+      }
+    }
+
+    return res.status(500).json({ error: error_message });
+  }
+}
+
+// =============================================================================
+// HELPER
+// =============================================================================
+
+/**
+ * Record the video's result on its source, settling the source if it was the last one
+ */
+async function reportSourceResult(
+  source_id: string | null,
+  loom_video_id: string,
+  status: 'completed' | 'skipped' | 'failed',
+  error_message?: string
+): Promise<void> {
+  if (!source_id) return;
+
+  await recordSourceVideoResult(source_id, loom_video_id, status, error_message);
+
+  const settled = await settleScrapeSource(source_id);
+  if (settled) {
+    console.log(`[VideoWorker] Source ${source_id} settled: ${settled.status}`);
+    await emitSourceSettled(settled);
   }
 }
@@ -0,0 +1,81 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getWebhookDeliveryTarget, recordWebhookAttempt } from '../../lib/db.js';
+import { sendWebhook } from '../../lib/webhooks.js';
+import { verifyQStashSignature, WEBHOOK_RETRIES, type WebhookJobPayload } from '../../lib/qstash.js';
+
+// =============================================================================
+// WEBHOOK WORKER
+// =============================================================================
+// POST /api/worker/webhook
+//
+// Called by QStash to send a single webhook delivery.
+// Failed attempts return 502 so QStash retries with exponential backoff;
+// the last attempt marks the delivery as failed.
+// =============================================================================
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<VercelResponse> {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Verify QStash signature
+    const signature = req.headers['upstash-signature'] as string | undefined;
+    const raw_body = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+
+    const is_valid = await verifyQStashSignature(signature, raw_body);
+    if (!is_valid) {
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    // Parse payload
+    const payload: WebhookJobPayload = typeof req.body === 'string'
+      ? JSON.parse(req.body)
+      : req.body;
+
+    if (!payload.delivery_id) {
+      return res.status(400).json({ error: 'delivery_id is required' });
+    }
+
+    const target = await getWebhookDeliveryTarget(payload.delivery_id);
+
+    // Subscription deleted or already delivered - nothing left to do
+    if (!target || target.delivery.status !== 'pending') {
+      return res.status(200).json({ success: true, skipped: true });
+    }
+
+    const { delivery, url, secret } = target;
+
+    const result = await sendWebhook(url, secret, {
+      id: delivery.id,
+      event: delivery.event,
+      created_at: new Date(delivery.created_at).toISOString(),
+      data: delivery.data,
+    });
+
+    if (result.ok) {
+      await recordWebhookAttempt(delivery.id, 'delivered', result.status);
+      console.log(`[WebhookWorker] Delivered ${delivery.event} to ${url}`);
+      return res.status(200).json({ success: true, delivery_id: delivery.id });
+    }
+
+    // QStash counts retries in the Upstash-Retried header
+    const retried = parseInt(req.headers['upstash-retried'] as string) || 0;
+    const is_last_attempt = retried >= WEBHOOK_RETRIES;
+
+    await recordWebhookAttempt(delivery.id, is_last_attempt ? 'failed' : 'pending', result.status, result.error);
+    console.log(`[WebhookWorker] Attempt ${retried + 1} failed for ${delivery.id}: ${result.error}`);
+
+    if (is_last_attempt) {
+      return res.status(200).json({ success: false, error: result.error });
+    }
+
+    return res.status(502).json({ error: result.error });
+  } catch (error) {
+    console.error('[WebhookWorker] Error:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal error' });
+  }
+}
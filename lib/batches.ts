@@ -0,0 +1,177 @@
+import { buildListing, classifyUrl, extractVideoId } from './loom/index.js';
+import { JOB_TYPES } from './sources.js';
+import type { BatchLineError, BatchRequest, JobType } from './types.js';
+
+// =============================================================================
+// BULK ENQUEUE - Parses lists of URLs into sources, one line at a time
+// =============================================================================
+
+export const MAX_BATCH_LINES = 5000;
+
+export interface BatchLine {
+  line: number; // 1-based position in the input
+  input: string;
+  url: string;
+  type: string | null; // Explicit type, otherwise classified from the URL
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Split one CSV row into cells, honouring double-quoted cells
+ */
+function parseCsvRow(row: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse newline-separated URLs or CSV
+ * A first row with a "url" cell is a CSV header, and an optional "type" column
+ * sets each row's type. Without a header the first non-empty cell is the URL.
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseBatchText(text: string): BatchLine[] {
+  const rows = text.split(/\r?\n/);
+  const lines: BatchLine[] = [];
+
+  let url_column: number | null = null;
+  let type_column: number | null = null;
+
+  rows.forEach((row, index) => {
+    const input = row.trim();
+    if (!input || input.startsWith('#')) return;
+
+    const cells = parseCsvRow(input);
+
+    if (lines.length === 0 && url_column === null) {
+      const header = cells.map((cell) => cell.toLowerCase());
+      if (header.includes('url')) {
+        url_column = header.indexOf('url');
+        type_column = header.includes('type') ? header.indexOf('type') : null;
+        return;
+      }
+    }
+
+    const url = url_column !== null ? cells[url_column] ?? '' : cells.find(Boolean) ?? '';
+    const type = type_column !== null ? cells[type_column] || null : null;
+
+    lines.push({ line: index + 1, input, url, type });
+  });
+
+  return lines;
+}
+
+/**
+ * Turn a bulk request into lines: a JSON array, { urls }, { text } or a raw text/CSV body
+ *
+ * @returns The lines, or an error message if the body has no URLs in a known shape
+ */
+export function parseBatchInput(body: unknown): BatchLine[] | string {
+  if (typeof body === 'string') {
+    return parseBatchText(body);
+  }
+
+  const request = (Array.isArray(body) ? { urls: body } : body) as BatchRequest | null;
+
+  if (typeof request?.text === 'string') {
+    return parseBatchText(request.text);
+  }
+
+  if (!Array.isArray(request?.urls)) {
+    return 'Send a JSON array of URLs, { "urls": [...] }, { "text": "..." } or a text/CSV body';
+  }
+
+  return request.urls.map((entry, index) => {
+    if (typeof entry === 'string') {
+      return { line: index + 1, input: entry, url: entry.trim(), type: null };
+    }
+
+    const { url, type } = (entry ?? {}) as { url?: unknown; type?: unknown };
+    return {
+      line: index + 1,
+      input: JSON.stringify(entry),
+      url: typeof url === 'string' ? url.trim() : '',
+      type: typeof type === 'string' ? type : null,
+    };
+  });
+}
+
+// =============================================================================
+// CLASSIFICATION
+// =============================================================================
+
+/**
+ * Classify and validate each line, dropping duplicates of earlier lines
+ */
+export function resolveBatchLines(lines: BatchLine[]): {
+  sources: { url: string; type: JobType }[];
+  errors: BatchLineError[];
+} {
+  const sources: { url: string; type: JobType }[] = [];
+  const errors: BatchLineError[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { line, input, url, type } of lines) {
+    if (!url) {
+      errors.push({ line, input, error: 'URL is required' });
+      continue;
+    }
+
+    if (type !== null && !JOB_TYPES.includes(type as JobType)) {
+      errors.push({ line, input, error: `Type must be one of: ${JOB_TYPES.join(', ')}` });
+      continue;
+    }
+
+    const job_type = (type as JobType | null) ?? classifyUrl(url);
+    if (!job_type) {
+      errors.push({ line, input, error: 'Not a recognised Loom video, folder, library, shared or space URL' });
+      continue;
+    }
+
+    if (job_type === 'video' ? !extractVideoId(url) : !buildListing(job_type, url)) {
+      errors.push({ line, input, error: `Invalid Loom ${job_type} URL` });
+      continue;
+    }
+
+    const key = `${job_type} ${url}`;
+    const first_line = seen.get(key);
+    if (first_line !== undefined) {
+      errors.push({ line, input, error: `Duplicate of line ${first_line}` });
+      continue;
+    }
+
+    seen.set(key, line);
+    sources.push({ url, type: job_type });
+  }
+
+  return { sources, errors };
+}
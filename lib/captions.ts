@@ -0,0 +1,186 @@
+import type { Chapter, TranscriptSegment, TranscriptFormat, TranscriptTrack } from './types.js';
+
+// =============================================================================
+// TRANSCRIPT EXPORT - SRT, WebVTT, plain text and Markdown converters
+// =============================================================================
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['srt', 'vtt', 'txt', 'md'];
+
+export const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+};
+
+// Cue length used for the last segment when the video duration is unknown
+const DEFAULT_LAST_CUE_SECONDS = 5;
+
+interface ExportOptions {
+  title?: string;
+  duration?: number;
+  chapters?: Chapter[] | null;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Build cues, using each segment's own end time when the CDN provided one
+ * Otherwise the end is derived from the next segment's start, and the final
+ * cue ends at the video duration
+ */
+function buildCues(segments: TranscriptSegment[], duration?: number): Cue[] {
+  const sorted = [...segments].sort((a, b) => a.ts - b.ts);
+
+  return sorted.map((segment, index) => {
+    const next = sorted[index + 1];
+    let end: number;
+
+    if (segment.end !== undefined && segment.end !== null) {
+      end = segment.end;
+    } else if (next) {
+      end = next.ts;
+    } else if (duration && duration > segment.ts) {
+      end = duration;
+    } else {
+      end = segment.ts + DEFAULT_LAST_CUE_SECONDS;
+    }
+
+    return { start: segment.ts, end: Math.max(end, segment.ts), text: segment.value.trim() };
+  });
+}
+
+/**
+ * Format seconds as HH:MM:SS<separator>mmm
+ */
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const total_ms = Math.round(Math.max(seconds, 0) * 1000);
+  const hours = Math.floor(total_ms / 3_600_000);
+  const minutes = Math.floor((total_ms % 3_600_000) / 60_000);
+  const secs = Math.floor((total_ms % 60_000) / 1000);
+  const ms = total_ms % 1000;
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Format seconds as MM:SS or H:MM:SS for human-readable output
+ */
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(Math.max(seconds, 0));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  const mm_ss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mm_ss}` : mm_ss;
+}
+
+/**
+ * Pick the track for a language code, preferring transcripts over captions
+ * Falls back to matching the primary subtag (e.g. "es" matches "es-419")
+ */
+export function selectTranscriptTrack(
+  tracks: TranscriptTrack[],
+  language: string
+): TranscriptTrack | null {
+  const wanted = language.toLowerCase();
+  const by_kind = (a: TranscriptTrack, b: TranscriptTrack) =>
+    a.kind === b.kind ? 0 : a.kind === 'transcript' ? -1 : 1;
+
+  const exact = tracks.filter((track) => track.language === wanted).sort(by_kind);
+  if (exact.length > 0) return exact[0];
+
+  const primary = wanted.split('-')[0];
+  const partial = tracks.filter((track) => track.language.split('-')[0] === primary).sort(by_kind);
+  return partial[0] || null;
+}
+
+// =============================================================================
+// CONVERTERS
+// =============================================================================
+
+function toSrt(cues: Cue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+function toVtt(cues: Cue[]): string {
+  const body = cues
+    .map((cue) => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+
+  return `WEBVTT\n\n${body}`;
+}
+
+function toText(cues: Cue[]): string {
+  return cues.map((cue) => cue.text).join('\n') + '\n';
+}
+
+/**
+ * Markdown transcript grouped under chapter headings when chapters exist
+ */
+function toMarkdown(cues: Cue[], options: ExportOptions): string {
+  const lines: string[] = [];
+
+  if (options.title) {
+    lines.push(`# ${options.title}`, '');
+  }
+
+  const chapters = [...(options.chapters || [])].sort((a, b) => a.start_seconds - b.start_seconds);
+  let chapter_index = -1;
+
+  for (const cue of cues) {
+    // Advance to the last chapter that starts at or before this cue
+    let next_index = chapter_index;
+    while (next_index + 1 < chapters.length && chapters[next_index + 1].start_seconds <= cue.start) {
+      next_index++;
+    }
+
+    if (next_index !== chapter_index) {
+      chapter_index = next_index;
+      const chapter = chapters[chapter_index];
+      if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      lines.push(`## ${chapter.title} (${chapter.timestamp})`, '');
+    }
+
+    lines.push(`**[${formatTimestamp(cue.start)}]** ${cue.text}`, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert transcript segments to the requested export format
+ */
+export function formatTranscript(
+  segments: TranscriptSegment[],
+  format: TranscriptFormat,
+  options: ExportOptions = {}
+): string {
+  const cues = buildCues(segments, options.duration);
+
+  switch (format) {
+    case 'srt':
+      return toSrt(cues);
+    case 'vtt':
+      return toVtt(cues);
+    case 'txt':
+      return toText(cues);
+    case 'md':
+      return toMarkdown(cues, options);
+  }
+}
@@ -0,0 +1,149 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+// =============================================================================
+// SECRET ENCRYPTION
+// =============================================================================
+// AES-256-GCM encryption for secrets stored in Postgres (Loom cookies, video
+// passwords, webhook signing secrets).
+// Ciphertext format: enc:v2:<key_id>:<iv>:<auth_tag>:<data> (base64url segments)
+//
+// Keys are rotatable: CREDENTIALS_ENCRYPTION_KEY encrypts, and keys listed in
+// CREDENTIALS_ENCRYPTION_KEY_PREVIOUS (comma-separated) can still decrypt until
+// the cron job has re-encrypted everything under the current key.
+// v1 ciphertexts (enc:v1:<iv>:<auth_tag>:<data>, no key ID) are still read.
+// =============================================================================
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v2:';
+const LEGACY_PREFIX = 'enc:v1:';
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Derive a 32-byte encryption key and its short ID from a configured secret
+ */
+function deriveKey(secret: string): EncryptionKey {
+  const key = createHash('sha256').update(secret).digest();
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 12);
+  return { id, key };
+}
+
+/**
+ * The current key from CREDENTIALS_ENCRYPTION_KEY
+ */
+function getCurrentKey(): EncryptionKey {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY environment variable is not set');
+  }
+
+  return deriveKey(secret);
+}
+
+/**
+ * Every key that may decrypt a stored secret, current key first
+ */
+function getKeyRing(): EncryptionKey[] {
+  const previous = (process.env.CREDENTIALS_ENCRYPTION_KEY_PREVIOUS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean)
+    .map(deriveKey);
+
+  return [getCurrentKey(), ...previous];
+}
+
+function decryptWithKey(key: Buffer, iv: string, auth_tag: string, data: string): string {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(auth_tag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Whether an encryption key is configured
+ */
+export function hasEncryptionKey(): boolean {
+  return !!process.env.CREDENTIALS_ENCRYPTION_KEY;
+}
+
+/**
+ * Prefix shared by every secret encrypted under the current key
+ */
+export function currentSecretPrefix(): string {
+  return `${PREFIX}${getCurrentKey().id}:`;
+}
+
+/**
+ * Encrypt a secret for storage under the current key
+ */
+export function encryptSecret(plaintext: string): string {
+  const { id, key } = getCurrentKey();
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const auth_tag = cipher.getAuthTag();
+
+  return `${PREFIX}${id}:${iv.toString('base64url')}:${auth_tag.toString('base64url')}:${data.toString('base64url')}`;
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret, with the current or a previous key
+ */
+export function decryptSecret(ciphertext: string): string {
+  if (ciphertext.startsWith(PREFIX)) {
+    const [key_id, iv, auth_tag, data] = ciphertext.slice(PREFIX.length).split(':');
+    const match = getKeyRing().find((candidate) => candidate.id === key_id);
+    if (!match) {
+      throw new Error(`No encryption key configured for secret key ID ${key_id}`);
+    }
+
+    return decryptWithKey(match.key, iv, auth_tag, data);
+  }
+
+  // v1 secrets don't name their key - try each one
+  if (ciphertext.startsWith(LEGACY_PREFIX)) {
+    const [iv, auth_tag, data] = ciphertext.slice(LEGACY_PREFIX.length).split(':');
+
+    for (const { key } of getKeyRing()) {
+      try {
+        return decryptWithKey(key, iv, auth_tag, data);
+      } catch {
+        // Wrong key - the auth tag doesn't verify
+      }
+    }
+
+    throw new Error('No configured encryption key decrypts this secret');
+  }
+
+  throw new Error('Unsupported secret format');
+}
+
+/**
+ * Decrypt a stored credential
+ * Values without an encryption prefix are plaintext stored before credentials were encrypted
+ */
+export function decryptStoredSecret(value: string): string {
+  return value.startsWith('enc:') ? decryptSecret(value) : value;
+}
+
+/**
+ * Whether a stored value should be (re-)encrypted under the current key
+ * True for plaintext written before the value was encrypted, and for older keys or formats
+ */
+export function needsReencryption(value: string): boolean {
+  return !value.startsWith(currentSecretPrefix());
+}
+
+/**
+ * Re-encrypt a stored value under the current key
+ */
+export function reencryptSecret(value: string): string {
+  return encryptSecret(decryptStoredSecret(value));
+}
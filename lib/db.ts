@@ -4,9 +4,48 @@ import type {
   VideoJob,
   ScrapeSource,
   PersistedVideo,
-  ScrapeStatus,
+  SourceStatus,
   JobType,
+  VideoRevision,
+  SearchHit,
+  MediaArchive,
+  ThumbnailArchive,
+  Owner,
+  Reaction,
+  LoomComment,
+  CommentReply,
+  StoredComment,
+  StoredReaction,
+  CommentFilters,
+  ReactionFilters,
+  ListingState,
+  SourceSnapshot,
+  VideoAvailability,
+  FolderVideo,
+  SourceQueueItem,
+  SourceQueueCounts,
+  SourceSchedule,
+  SourceOptions,
+  SourceProgress,
+  SourceFilters,
+  ScrapeBatch,
+  BatchLineError,
+  BatchProgress,
+  WebhookEvent,
+  WebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
 } from './types.js';
+import {
+  encryptSecret,
+  decryptSecret,
+  decryptStoredSecret,
+  reencryptSecret,
+  needsReencryption,
+  currentSecretPrefix,
+} from './crypto.js';
+import { hashVideoContent } from './revisions.js';
+import { nextScheduledRun } from './schedule.js';
 
 // =============================================================================
 // DATABASE CONFIGURATION
@@ -38,6 +77,13 @@ function getDb(): postgres.Sql {
   return sql;
 }
 
+/**
+ * Wrap any value for a JSONB column
+ */
+function json(value: unknown) {
+  return getDb().json(value as any);
+}
+
 /**
  * Retry wrapper for database operations
  * Handles transient connection failures common in serverless
@@ -91,9 +137,9 @@ export async function initializeSchema(): Promise<void> {
     CREATE TABLE IF NOT EXISTS scrape_sources (
       id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
       url TEXT NOT NULL,
-      type TEXT NOT NULL CHECK (type IN ('video', 'folder')),
+      type TEXT NOT NULL CHECK (type IN ('video', 'folder', 'library', 'shared', 'space')),
       cookies TEXT,
-      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'partially_failed', 'failed')),
       error_message TEXT,
       created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -141,11 +187,336 @@ export async function initializeSchema(): Promise<void> {
     )
   `;
 
+  // Create video_revisions table - content snapshots, one per change
+  await db`
+    CREATE TABLE IF NOT EXISTS video_revisions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      loom_video_id TEXT NOT NULL,
+      revision INTEGER NOT NULL,
+      content_hash TEXT NOT NULL,
+      snapshot JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE(loom_video_id, revision)
+    )
+  `;
+
+  // Create owners table - video creators keyed by their Loom user ID
+  await db`
+    CREATE TABLE IF NOT EXISTS owners (
+      id TEXT PRIMARY KEY,
+      name TEXT,
+      avatar_url TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Create comments table - comments and replies keyed by their Loom IDs
+  await db`
+    CREATE TABLE IF NOT EXISTS comments (
+      id TEXT PRIMARY KEY,
+      loom_video_id TEXT NOT NULL REFERENCES videos(loom_video_id) ON DELETE CASCADE,
+      parent_id TEXT,
+      author TEXT NOT NULL,
+      content TEXT NOT NULL,
+      video_timestamp DOUBLE PRECISION,
+      avatar_url TEXT,
+      loom_created_at TIMESTAMPTZ NOT NULL,
+      edited BOOLEAN NOT NULL DEFAULT FALSE,
+      first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Create reactions table - emoji reactions keyed by their Loom IDs
+  await db`
+    CREATE TABLE IF NOT EXISTS reactions (
+      id TEXT PRIMARY KEY,
+      loom_video_id TEXT NOT NULL REFERENCES videos(loom_video_id) ON DELETE CASCADE,
+      user_name TEXT NOT NULL,
+      reaction TEXT NOT NULL,
+      video_timestamp DOUBLE PRECISION NOT NULL,
+      first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Create webhook_subscriptions table - outbound webhook endpoints
+  await db`
+    CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events JSONB NOT NULL DEFAULT '[]',
+      description TEXT,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Create webhook_deliveries table - one row per event per subscription
+  await db`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+      event TEXT NOT NULL,
+      data JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+      attempt_count INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      error_message TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      delivered_at TIMESTAMPTZ
+    )
+  `;
+
+  // Create source_video_queue table - videos discovered by a bulk source, claimed in slices
+  await db`
+    CREATE TABLE IF NOT EXISTS source_video_queue (
+      id BIGSERIAL PRIMARY KEY,
+      source_id UUID NOT NULL REFERENCES scrape_sources(id) ON DELETE CASCADE,
+      loom_video_id TEXT NOT NULL,
+      folder_path TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'completed', 'skipped', 'failed')),
+      error_message TEXT,
+      claimed_at TIMESTAMPTZ,
+      completed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE(source_id, loom_video_id)
+    )
+  `;
+
+  // Create source_videos table - which videos each source contains (a video can be in many)
+  await db`
+    CREATE TABLE IF NOT EXISTS source_videos (
+      source_id UUID NOT NULL REFERENCES scrape_sources(id) ON DELETE CASCADE,
+      loom_video_id TEXT NOT NULL,
+      folder_path TEXT,
+      first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (source_id, loom_video_id)
+    )
+  `;
+
+  // Create source_snapshots table - membership of a source after each finished listing
+  await db`
+    CREATE TABLE IF NOT EXISTS source_snapshots (
+      id BIGSERIAL PRIMARY KEY,
+      source_id UUID NOT NULL REFERENCES scrape_sources(id) ON DELETE CASCADE,
+      video_count INTEGER NOT NULL,
+      added JSONB NOT NULL DEFAULT '[]',
+      removed JSONB NOT NULL DEFAULT '[]',
+      complete BOOLEAN NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Bulk enqueues - parent record of the sources created from one list of URLs
+  await db`
+    CREATE TABLE IF NOT EXISTS scrape_batches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      total_lines INTEGER NOT NULL,
+      sources_created INTEGER NOT NULL,
+      errors JSONB NOT NULL DEFAULT '[]',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+
+  // Bulk source types added after the initial schema
+  await db`ALTER TABLE scrape_sources DROP CONSTRAINT IF EXISTS scrape_sources_type_check`;
+  await db`
+    ALTER TABLE scrape_sources ADD CONSTRAINT scrape_sources_type_check
+    CHECK (type IN ('video', 'folder', 'library', 'shared', 'space'))
+  `;
+
+  // Columns added after the initial schema
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS password TEXT`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS video_passwords JSONB NOT NULL DEFAULT '{}'`;
+  await db`ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS password TEXT`;
+
+  // Media archival
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS archive_media BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS archive_media BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_storage_backend TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_storage_key TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_checksum TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_size BIGINT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_content_type TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS media_archived_at TIMESTAMPTZ`;
+
+  // Stored thumbnail copies (the thumbnail/animated_thumbnail columns keep the Loom URLs)
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS thumbnail_storage_key TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS thumbnail_content_type TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS animated_thumbnail TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS animated_thumbnail_storage_key TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS animated_thumbnail_content_type TEXT`;
+
+  // Transcript and caption tracks in every available language
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcript_language TEXT`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcripts JSONB NOT NULL DEFAULT '[]'`;
+
+  // Recursive folder sources
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS recursive BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS max_depth INTEGER`;
+  await db`ALTER TABLE video_jobs ADD COLUMN IF NOT EXISTS folder_path TEXT`;
+
+  // Sources settle from their videos' outcomes, which are recorded on the queue
+  await db`ALTER TABLE scrape_sources DROP CONSTRAINT IF EXISTS scrape_sources_status_check`;
+  await db`
+    ALTER TABLE scrape_sources ADD CONSTRAINT scrape_sources_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'partially_failed', 'failed'))
+  `;
+  await db`ALTER TABLE source_video_queue DROP CONSTRAINT IF EXISTS source_video_queue_status_check`;
+  await db`UPDATE source_video_queue SET status = 'completed' WHERE status = 'done'`;
+  await db`
+    ALTER TABLE source_video_queue ADD CONSTRAINT source_video_queue_status_check
+    CHECK (status IN ('pending', 'claimed', 'completed', 'skipped', 'failed'))
+  `;
+  await db`ALTER TABLE source_video_queue ADD COLUMN IF NOT EXISTS error_message TEXT`;
+
+  // Resumable listing progress for bulk sources
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS listing_state JSONB`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS listing_errors JSONB NOT NULL DEFAULT '[]'`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS videos_discovered INTEGER NOT NULL DEFAULT 0`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS listing_completed_at TIMESTAMPTZ`;
+
+  // Availability tracking - videos Loom stopped serving, and videos that left a source
+  await db`
+    ALTER TABLE videos ADD COLUMN IF NOT EXISTS availability TEXT NOT NULL DEFAULT 'available'
+    CHECK (availability IN ('available', 'deleted', 'access_revoked'))
+  `;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS unavailable_since TIMESTAMPTZ`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS availability_checked_at TIMESTAMPTZ`;
+  await db`ALTER TABLE source_videos ADD COLUMN IF NOT EXISTS removed_at TIMESTAMPTZ`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS listing_started_at TIMESTAMPTZ`;
+
+  // Recurring schedules - the cron job re-runs sources once next_run_at has passed
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS schedule_interval_minutes INTEGER`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS schedule_cron TEXT`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ`;
+
+  // Freshness policy - per-source overrides of when stored videos are re-scraped
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS freshness JSONB`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS force_rescrape BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES scrape_batches(id) ON DELETE SET NULL`;
+
+  // Duplicate suppression - client-supplied idempotency keys and in-flight lookups by URL
+  await db`ALTER TABLE scrape_sources ADD COLUMN IF NOT EXISTS idempotency_key TEXT`;
+
+  // Link videos to their owner
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS owner_id TEXT REFERENCES owners(id) ON DELETE SET NULL`;
+
+  // Comment author identity, mentions and tombstones
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS guid TEXT`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS user_id TEXT`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS anon_user_id TEXT`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS mentions JSONB NOT NULL DEFAULT '[]'`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS is_chat_message BOOLEAN NOT NULL DEFAULT FALSE`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS reaction TEXT`;
+  await db`ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ`;
+
+  // Full-text search vectors, one per searchable field so hits can report what matched
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS title_tsv TSVECTOR`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS description_tsv TSVECTOR`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS transcript_tsv TSVECTOR`;
+  await db`ALTER TABLE videos ADD COLUMN IF NOT EXISTS comments_tsv TSVECTOR`;
+
+  // Backfill search vectors for rows saved before they existed
+  await db`
+    UPDATE videos SET
+      title_tsv = to_tsvector('english', title),
+      description_tsv = to_tsvector('english', COALESCE(description, '')),
+      transcript_tsv = to_tsvector('english', COALESCE(
+        (SELECT string_agg(seg->>'value', ' ') FROM jsonb_array_elements(transcript) seg), ''
+      )),
+      comments_tsv = to_tsvector('english', COALESCE(
+        (SELECT string_agg(
+          (c->>'content') || ' ' || COALESCE(
+            (SELECT string_agg(r->>'content', ' ') FROM jsonb_array_elements(c->'replies') r), ''
+          ), ' ')
+        FROM jsonb_array_elements(comments) c), ''
+      ))
+    WHERE title_tsv IS NULL
+  `;
+
+  // Backfill comment and reaction rows for videos scraped before the tables existed
+  // Only into empty tables - once filled, scrapes keep them up to date
+  await db`
+    INSERT INTO comments (id, loom_video_id, parent_id, author, content, video_timestamp, avatar_url, loom_created_at, edited)
+    SELECT c.value->>'id', v.loom_video_id, c.parent_id,
+      COALESCE(c.value->>'author', 'Anonymous'), COALESCE(c.value->>'content', ''),
+      (c.value->>'video_timestamp')::DOUBLE PRECISION, c.value->>'avatar_url',
+      COALESCE((c.value->>'created_at')::TIMESTAMPTZ, v.loom_created_at, v.scraped_at),
+      COALESCE((c.value->>'edited')::BOOLEAN, FALSE)
+    FROM videos v,
+      LATERAL (
+        SELECT value, NULL::TEXT AS parent_id FROM jsonb_array_elements(v.comments)
+        UNION ALL
+        SELECT r, parent->>'id' FROM jsonb_array_elements(v.comments) parent,
+          jsonb_array_elements(COALESCE(parent->'replies', '[]')) r
+      ) c
+    WHERE c.value->>'id' IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM comments)
+    ON CONFLICT (id) DO NOTHING
+  `;
+  await db`
+    INSERT INTO reactions (id, loom_video_id, user_name, reaction, video_timestamp)
+    SELECT r->>'id', v.loom_video_id, COALESCE(r->>'user_name', 'Anonymous'), r->>'reaction',
+      COALESCE((r->>'video_timestamp')::DOUBLE PRECISION, 0)
+    FROM videos v, jsonb_array_elements(v.reactions) r
+    WHERE r->>'id' IS NOT NULL
+      AND r->>'reaction' IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM reactions)
+    ON CONFLICT (id) DO NOTHING
+  `;
+
+  // Backfill source membership from jobs created before source_videos existed
+  // (each job only kept the last source that enqueued its video)
+  await db`
+    INSERT INTO source_videos (source_id, loom_video_id, folder_path, first_seen_at, last_seen_at)
+    SELECT source_id, loom_video_id, folder_path, created_at, updated_at FROM video_jobs
+    WHERE source_id IS NOT NULL
+    ON CONFLICT (source_id, loom_video_id) DO NOTHING
+  `;
+  await db`
+    INSERT INTO source_videos (source_id, loom_video_id, folder_path, first_seen_at, last_seen_at)
+    SELECT source_id, loom_video_id, folder_path, created_at, created_at FROM source_video_queue
+    ON CONFLICT (source_id, loom_video_id) DO NOTHING
+  `;
+
   // Create indexes for common queries
   await db`CREATE INDEX IF NOT EXISTS idx_video_jobs_status ON video_jobs(status)`;
   await db`CREATE INDEX IF NOT EXISTS idx_video_jobs_loom_id ON video_jobs(loom_video_id)`;
   await db`CREATE INDEX IF NOT EXISTS idx_videos_loom_id ON videos(loom_video_id)`;
   await db`CREATE INDEX IF NOT EXISTS idx_scrape_sources_status ON scrape_sources(status)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_video_revisions_created ON video_revisions(loom_video_id, created_at)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_title_tsv ON videos USING GIN(title_tsv)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_description_tsv ON videos USING GIN(description_tsv)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_transcript_tsv ON videos USING GIN(transcript_tsv)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_comments_tsv ON videos USING GIN(comments_tsv)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_owner_id ON videos(owner_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_video ON comments(loom_video_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_author ON comments(LOWER(author))`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_created ON comments(loom_created_at)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_user_id ON comments(user_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_comments_mentions ON comments USING GIN(mentions jsonb_path_ops)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_reactions_video ON reactions(loom_video_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_source_videos_loom_id ON source_videos(loom_video_id)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_source_snapshots_source ON source_snapshots(source_id, created_at)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_videos_availability ON videos(availability)`;
+  await db`CREATE INDEX IF NOT EXISTS idx_source_video_queue_status ON source_video_queue(source_id, status, id)`;
+  await db`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_scrape_sources_idempotency_key
+    ON scrape_sources(idempotency_key) WHERE idempotency_key IS NOT NULL
+  `;
+  await db`CREATE INDEX IF NOT EXISTS idx_scrape_sources_in_flight ON scrape_sources(url, type) WHERE status IN ('pending', 'processing')`;
+  await db`CREATE INDEX IF NOT EXISTS idx_scrape_sources_batch ON scrape_sources(batch_id) WHERE batch_id IS NOT NULL`;
+  await db`CREATE INDEX IF NOT EXISTS idx_scrape_sources_next_run ON scrape_sources(next_run_at) WHERE next_run_at IS NOT NULL`;
 
   console.log('[DB] Schema initialized successfully');
 }
@@ -154,245 +525,1905 @@ export async function initializeSchema(): Promise<void> {
 // SCRAPE SOURCES OPERATIONS
 // =============================================================================
 
+// A repeated Idempotency-Key returns the original source for this long
+const IDEMPOTENCY_KEY_HOURS = 24;
+
 /**
  * Create a new scrape source (folder or video URL submission)
+ * Passwords are encrypted before they are stored
+ * A scheduled source gets its first re-run time from the schedule
+ *
+ * @returns The new source, or null if another source already holds the idempotency key
  */
 export async function createScrapeSource(
   url: string,
   type: JobType,
-  cookies?: string
-): Promise<ScrapeSource> {
+  options: SourceOptions,
+  video_passwords?: Record<string, string>,
+  idempotency_key?: string
+): Promise<ScrapeSource | null> {
   const db = getDb();
 
+  const { cookies, password, archive_media, recursive, max_depth, schedule, freshness, force } = options;
+
+  const encrypted_video_passwords: Record<string, string> = {};
+  for (const [video_id, video_password] of Object.entries(video_passwords || {})) {
+    encrypted_video_passwords[video_id] = encryptSecret(video_password);
+  }
+
+  const next_run_at = schedule ? nextScheduledRun(schedule, new Date()) : null;
+
   const [source] = await db`
-    INSERT INTO scrape_sources (url, type, cookies, status)
-    VALUES (${url}, ${type}, ${cookies || null}, 'pending')
+    INSERT INTO scrape_sources (
+      url, type, cookies, password, video_passwords, archive_media, recursive, max_depth,
+      schedule_interval_minutes, schedule_cron, last_run_at, next_run_at, freshness, force_rescrape,
+      idempotency_key, status
+    )
+    VALUES (
+      ${url},
+      ${type},
+      ${cookies ? encryptSecret(cookies) : null},
+      ${password ? encryptSecret(password) : null},
+      ${db.json(encrypted_video_passwords)},
+      ${archive_media},
+      ${recursive},
+      ${max_depth},
+      ${schedule?.interval_minutes ?? null},
+      ${schedule?.cron ?? null},
+      NOW(),
+      ${next_run_at},
+      ${freshness ? db.json(freshness) : null},
+      ${force},
+      ${idempotency_key ?? null},
+      'pending'
+    )
+    ON CONFLICT (idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
     RETURNING *
   `;
 
-  return source as ScrapeSource;
+  return (source as ScrapeSource) || null;
 }
 
 /**
- * Update scrape source status
+ * Get the source created with an idempotency key
  */
-export async function updateScrapeSourceStatus(
-  source_id: string,
-  status: ScrapeStatus,
-  error_message?: string
-): Promise<void> {
-  const db = getDb();
+export async function getSourceByIdempotencyKey(idempotency_key: string): Promise<ScrapeSource | null> {
+  return withRetry(async () => {
+    const db = getDb();
 
-  await db`
-    UPDATE scrape_sources
-    SET status = ${status},
-        error_message = ${error_message || null},
-        updated_at = NOW()
-    WHERE id = ${source_id}
-  `;
-}
+    const [source] = await db`
+      SELECT * FROM scrape_sources
+      WHERE idempotency_key = ${idempotency_key}
+      LIMIT 1
+    `;
 
-// =============================================================================
-// VIDEO JOBS OPERATIONS
-// =============================================================================
+    return (source as ScrapeSource) || null;
+  });
+}
 
 /**
- * Create a video job (or update if exists)
- * Uses UPSERT to handle idempotency
+ * Get the newest source for the same URL that is still pending or processing
  */
-export async function createVideoJob(
-  loom_video_id: string,
-  source_id?: string,
-  cookies?: string
-): Promise<VideoJob> {
+export async function getInFlightSource(url: string, type: JobType): Promise<ScrapeSource | null> {
   return withRetry(async () => {
     const db = getDb();
 
-    const [job] = await db`
-      INSERT INTO video_jobs (loom_video_id, source_id, cookies, status)
-      VALUES (${loom_video_id}, ${source_id || null}, ${cookies || null}, 'pending')
-      ON CONFLICT (loom_video_id)
-      DO UPDATE SET
-        source_id = COALESCE(EXCLUDED.source_id, video_jobs.source_id),
-        cookies = COALESCE(EXCLUDED.cookies, video_jobs.cookies),
-        updated_at = NOW()
-      RETURNING *
+    const [source] = await db`
+      SELECT * FROM scrape_sources
+      WHERE url = ${url}
+        AND type = ${type}
+        AND status IN ('pending', 'processing')
+      ORDER BY created_at DESC
+      LIMIT 1
     `;
 
-    return job as VideoJob;
+    return (source as ScrapeSource) || null;
   });
 }
 
 /**
- * Get pending video jobs for processing
- * Returns jobs that haven't exceeded max attempts
+ * Release idempotency keys older than IDEMPOTENCY_KEY_HOURS so they can be reused
+ *
+ * @returns Number of keys released
  */
-export async function getPendingVideoJobs(limit: number = 10): Promise<VideoJob[]> {
-  const db = getDb();
+export async function expireIdempotencyKeys(): Promise<number> {
+  return withRetry(async () => {
+    const db = getDb();
 
-  const jobs = await db`
-    SELECT * FROM video_jobs
-    WHERE status IN ('pending', 'failed')
-    AND attempt_count < max_attempts
-    ORDER BY created_at ASC
-    LIMIT ${limit}
-  `;
+    const rows = await db`
+      UPDATE scrape_sources
+      SET idempotency_key = NULL
+      WHERE idempotency_key IS NOT NULL
+        AND created_at < NOW() - ${IDEMPOTENCY_KEY_HOURS} * INTERVAL '1 hour'
+      RETURNING id
+    `;
 
-  return jobs as unknown as VideoJob[];
+    return rows.length;
+  });
 }
 
 /**
- * Mark a video job as processing
+ * Resolve the decrypted cookies and password for a video
+ * Queue payloads only carry the source ID (or, without a source, rely on the
+ * video's job row), so workers look their credentials up here
+ * Per-video source passwords win over the source default
  */
-export async function markJobProcessing(job_id: string): Promise<void> {
-  const db = getDb();
+export async function getVideoCredentials(
+  loom_video_id: string,
+  source_id?: string | null
+): Promise<{ cookies: string | null; password: string | null }> {
+  return withRetry(async () => {
+    const db = getDb();
 
-  await db`
-    UPDATE video_jobs
-    SET status = 'processing',
-        attempt_count = attempt_count + 1,
-        updated_at = NOW()
-    WHERE id = ${job_id}
-  `;
+    if (source_id) {
+      const [source] = await db`
+        SELECT cookies, password, video_passwords FROM scrape_sources
+        WHERE id = ${source_id}
+        LIMIT 1
+      `;
+
+      const password =
+        (source?.video_passwords as Record<string, string> | undefined)?.[loom_video_id] ||
+        source?.password;
+
+      return {
+        cookies: source?.cookies ? decryptStoredSecret(source.cookies) : null,
+        password: password ? decryptStoredSecret(password) : null,
+      };
+    }
+
+    const [job] = await db`
+      SELECT cookies, password FROM video_jobs
+      WHERE loom_video_id = ${loom_video_id}
+      LIMIT 1
+    `;
+
+    return {
+      cookies: job?.cookies ? decryptStoredSecret(job.cookies) : null,
+      password: job?.password ? decryptStoredSecret(job.password) : null,
+    };
+  });
 }
 
 /**
- * Mark a video job as completed
+ * Get a scrape source by ID
  */
-export async function markJobCompleted(job_id: string): Promise<void> {
-  const db = getDb();
+export async function getScrapeSource(source_id: string): Promise<ScrapeSource | null> {
+  return withRetry(async () => {
+    const db = getDb();
 
-  await db`
-    UPDATE video_jobs
-    SET status = 'completed',
-        processed_at = NOW(),
-        updated_at = NOW()
-    WHERE id = ${job_id}
-  `;
+    const [source] = await db`
+      SELECT * FROM scrape_sources
+      WHERE id = ${source_id}
+      LIMIT 1
+    `;
+
+    return (source as ScrapeSource) || null;
+  });
 }
 
 /**
- * Mark a video job as failed
+ * Store listing progress after a page has been fetched, recording the source's
+ * videos and queueing the new ones
+ * Marks the source as processing and the listing complete once nothing is pending
+ *
+ * @returns Number of videos that weren't already queued for the source
  */
-export async function markJobFailed(job_id: string, error_message: string): Promise<void> {
-  const db = getDb();
+export async function saveListingProgress(
+  source_id: string,
+  state: ListingState,
+  videos: FolderVideo[],
+  partial_error?: string
+): Promise<number> {
+  return withRetry(async () => {
+    const db = getDb();
 
-  await db`
-    UPDATE video_jobs
-    SET status = 'failed',
-        error_message = ${error_message},
-        updated_at = NOW()
-    WHERE id = ${job_id}
-  `;
+    const done = state.pending.length === 0;
+    const errors = partial_error ? [partial_error] : [];
+
+    const rows = videos.map((video) => ({
+      loom_video_id: video.id,
+      folder_path: video.folder_path ?? null,
+    }));
+
+    // One statement so a retried page can't queue videos twice or lose the cursor
+    const [result] = await db`
+      WITH listed AS (
+        SELECT DISTINCT ON (v.loom_video_id) v.loom_video_id, v.folder_path
+        FROM jsonb_to_recordset(${db.json(rows)}) AS v(loom_video_id TEXT, folder_path TEXT)
+      ),
+      members AS (
+        INSERT INTO source_videos (source_id, loom_video_id, folder_path)
+        SELECT ${source_id}, loom_video_id, folder_path FROM listed
+        ON CONFLICT (source_id, loom_video_id)
+        DO UPDATE SET folder_path = EXCLUDED.folder_path, last_seen_at = NOW(), removed_at = NULL
+      ),
+      queued AS (
+        INSERT INTO source_video_queue (source_id, loom_video_id, folder_path)
+        SELECT ${source_id}, loom_video_id, folder_path FROM listed
+        ON CONFLICT (source_id, loom_video_id) DO NOTHING
+        RETURNING id
+      )
+      UPDATE scrape_sources
+      SET listing_state = ${json(state)},
+          listing_errors = listing_errors || ${db.json(errors)},
+          videos_discovered = videos_discovered + (SELECT COUNT(*) FROM queued),
+          listing_started_at = COALESCE(listing_started_at, NOW()),
+          listing_completed_at = CASE WHEN ${done} THEN NOW() ELSE listing_completed_at END,
+          status = CASE WHEN status = 'pending' THEN 'processing' ELSE status END,
+          updated_at = NOW()
+      WHERE id = ${source_id}
+      RETURNING (SELECT COUNT(*) FROM queued)::INT AS queued
+    `;
+
+    return result?.queued ?? 0;
+  });
 }
 
 /**
- * Get job by loom video ID
+ * Update scrape source status
  */
-export async function getJobByLoomVideoId(loom_video_id: string): Promise<VideoJob | null> {
+export async function updateScrapeSourceStatus(
+  source_id: string,
+  status: SourceStatus,
+  error_message?: string
+): Promise<void> {
   const db = getDb();
 
-  const [job] = await db`
-    SELECT * FROM video_jobs
-    WHERE loom_video_id = ${loom_video_id}
-    LIMIT 1
+  await db`
+    UPDATE scrape_sources
+    SET status = ${status},
+        error_message = ${error_message || null},
+        updated_at = NOW()
+    WHERE id = ${source_id}
   `;
-
-  return (job as VideoJob) || null;
 }
 
 // =============================================================================
-// VIDEOS OPERATIONS (PERSISTED DATA)
+// SOURCE VIDEO QUEUE OPERATIONS
 // =============================================================================
 
+// Claimed videos without a result after this long count as failed
+export const RESULT_TIMEOUT_MINUTES = 60;
+
+const STALLED_SOURCE_MINUTES = 15;
+
 /**
- * Save or update scraped video data
- * Uses UPSERT for idempotency
- * Includes retry logic for connection failures
+ * Record and queue the single video of each video source, already published to the video worker
+ * Their listings are complete from the start, so each source settles with its video's result
  */
-export async function saveVideo(video: LoomVideo): Promise<PersistedVideo> {
+export async function addSourceVideos(
+  videos: { source_id: string; loom_video_id: string }[]
+): Promise<void> {
+  if (videos.length === 0) return;
+
   return withRetry(async () => {
     const db = getDb();
 
-    const json = (val: unknown) => db.json(val as any);
-
-    const [saved] = await db`
+    await db`
+      WITH listed AS (
+        SELECT * FROM jsonb_to_recordset(${db.json(videos)}) AS v(source_id UUID, loom_video_id TEXT)
+      ),
+      members AS (
+        INSERT INTO source_videos (source_id, loom_video_id)
+        SELECT source_id, loom_video_id FROM listed
+        ON CONFLICT (source_id, loom_video_id) DO UPDATE SET last_seen_at = NOW(), removed_at = NULL
+      ),
+      queued AS (
+        INSERT INTO source_video_queue (source_id, loom_video_id, status, claimed_at)
+        SELECT source_id, loom_video_id, 'claimed', NOW() FROM listed
+        ON CONFLICT (source_id, loom_video_id) DO NOTHING
+        RETURNING source_id
+      )
+      UPDATE scrape_sources s
+      SET videos_discovered = videos_discovered + (SELECT COUNT(*) FROM queued q WHERE q.source_id = s.id),
+          listing_completed_at = COALESCE(listing_completed_at, NOW()),
+          status = CASE WHEN status = 'pending' THEN 'processing' ELSE status END,
+          updated_at = NOW()
+      WHERE s.id IN (SELECT source_id FROM listed)
+    `;
+  });
+}
+
+/**
+ * Claim the next slice of a source's pending videos, in discovery order
+ * Claimed videos are published to the video worker, which records their result
+ */
+export async function claimSourceVideos(
+  source_id: string,
+  limit: number
+): Promise<SourceQueueItem[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const items = await db`
+      UPDATE source_video_queue
+      SET status = 'claimed', claimed_at = NOW()
+      WHERE id IN (
+        SELECT id FROM source_video_queue
+        WHERE source_id = ${source_id} AND status = 'pending'
+        ORDER BY id
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING loom_video_id, folder_path
+    `;
+
+    if (items.length > 0) {
+      await db`UPDATE scrape_sources SET updated_at = NOW() WHERE id = ${source_id}`;
+    }
+
+    return items as unknown as SourceQueueItem[];
+  });
+}
+
+/**
+ * Return claimed videos to the queue, e.g. when publishing them failed
+ */
+export async function releaseSourceVideos(
+  source_id: string,
+  loom_video_ids: string[]
+): Promise<void> {
+  if (loom_video_ids.length === 0) return;
+
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      UPDATE source_video_queue
+      SET status = 'pending', claimed_at = NULL
+      WHERE source_id = ${source_id}
+        AND status = 'claimed'
+        AND loom_video_id = ANY(${db.array(loom_video_ids)}::text[])
+    `;
+  });
+}
+
+/**
+ * Record the video worker's result for a source's video
+ * Only the first result counts - redelivered messages don't change it
+ */
+export async function recordSourceVideoResult(
+  source_id: string,
+  loom_video_id: string,
+  status: 'completed' | 'skipped' | 'failed',
+  error_message?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      UPDATE source_video_queue
+      SET status = ${status},
+          error_message = ${error_message || null},
+          completed_at = NOW()
+      WHERE source_id = ${source_id}
+        AND loom_video_id = ${loom_video_id}
+        AND status IN ('pending', 'claimed')
+    `;
+  });
+}
+
+/**
+ * Fail claimed videos the video worker never reported back on
+ * (QStash gave up on them, or the worker timed out on its last attempt)
+ *
+ * @param source_id - Only expire this source's videos; omit to sweep every source
+ * @returns IDs of the sources that had videos expired
+ */
+export async function failExpiredSourceVideos(source_id: string | null = null): Promise<string[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const rows = await db`
+      UPDATE source_video_queue
+      SET status = 'failed',
+          error_message = 'No result from the video worker',
+          completed_at = NOW()
+      WHERE status = 'claimed'
+        AND claimed_at < NOW() - ${RESULT_TIMEOUT_MINUTES} * INTERVAL '1 minute'
+        AND (${source_id}::uuid IS NULL OR source_id = ${source_id}::uuid)
+      RETURNING source_id
+    `;
+
+    return [...new Set(rows.map((row) => row.source_id as string))];
+  });
+}
+
+/**
+ * Count a source's queued videos by status
+ */
+export async function getSourceQueueCounts(source_id: string): Promise<SourceQueueCounts> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [counts] = await db`
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'pending')::INT AS pending,
+        COUNT(*) FILTER (WHERE status = 'claimed')::INT AS claimed,
+        COUNT(*) FILTER (WHERE status = 'completed')::INT AS completed,
+        COUNT(*) FILTER (WHERE status = 'skipped')::INT AS skipped,
+        COUNT(*) FILTER (WHERE status = 'failed')::INT AS failed
+      FROM source_video_queue
+      WHERE source_id = ${source_id}
+    `;
+
+    return counts as SourceQueueCounts;
+  });
+}
+
+/**
+ * Completion barrier - settle a source once its listing has finished and every
+ * queued video has a result: completed, partially_failed when videos failed or
+ * parts of the listing were skipped (listing_errors), or failed when no video succeeded
+ *
+ * Only one caller wins the transition, so it alone should emit the source's events.
+ * Unscheduled sources have their credentials purged once settled
+ *
+ * @returns The settled source, or null if it isn't done yet (or already settled)
+ */
+export async function settleScrapeSource(source_id: string): Promise<ScrapeSource | null> {
+  const settled = await withRetry(async () => {
+    const db = getDb();
+
+    const [source] = await db`
+      UPDATE scrape_sources s
+      SET status = CASE
+            WHEN c.failed = 0 AND jsonb_array_length(s.listing_errors) = 0 THEN 'completed'
+            WHEN c.succeeded = 0 THEN 'failed'
+            ELSE 'partially_failed'
+          END,
+          error_message = NULLIF(concat_ws('; ',
+            CASE
+              WHEN c.failed > 0 THEN c.failed || ' of ' || (c.failed + c.succeeded) || ' videos failed'
+            END,
+            CASE
+              WHEN jsonb_array_length(s.listing_errors) > 0 THEN 'listing incomplete: ' || (
+                SELECT string_agg(e, '; ') FROM jsonb_array_elements_text(s.listing_errors) e
+              )
+            END
+          ), ''),
+          updated_at = NOW()
+      FROM (
+        SELECT
+          COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+          COUNT(*) FILTER (WHERE status IN ('completed', 'skipped')) AS succeeded
+        FROM source_video_queue
+        WHERE source_id = ${source_id}
+      ) c
+      WHERE s.id = ${source_id}
+        AND s.status IN ('pending', 'processing')
+        AND s.listing_completed_at IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM source_video_queue q
+          WHERE q.source_id = ${source_id} AND q.status IN ('pending', 'claimed')
+        )
+      RETURNING s.*
+    `;
+
+    return (source as ScrapeSource) || null;
+  });
+
+  // The settle already happened - a failed purge is left to the cron sweep
+  if (settled) {
+    try {
+      await purgeSourceCredentials(source_id);
+    } catch (error) {
+      console.error(`[DB] Failed to purge credentials of source ${source_id}:`, error);
+    }
+  }
+
+  return settled;
+}
+
+/**
+ * Get sources whose folder job chain stopped without finishing, or that were
+ * never dispatched (publishing failed after they were created)
+ * A source is stalled when its listing or publishing hasn't progressed for
+ * STALLED_SOURCE_MINUTES; a video source is only stalled while its video isn't queued
+ */
+export async function getStalledSources(limit: number = 20): Promise<ScrapeSource[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const sources = await db`
+      SELECT * FROM scrape_sources s
+      WHERE s.status IN ('pending', 'processing')
+        AND s.updated_at < NOW() - ${STALLED_SOURCE_MINUTES} * INTERVAL '1 minute'
+        AND (
+          s.listing_completed_at IS NULL
+          OR EXISTS (
+            SELECT 1 FROM source_video_queue q
+            WHERE q.source_id = s.id AND q.status = 'pending'
+          )
+        )
+      ORDER BY s.updated_at ASC
+      LIMIT ${limit}
+    `;
+
+    return sources as unknown as ScrapeSource[];
+  });
+}
+
+/**
+ * List sources with their queue counts, newest first
+ */
+export async function getSourcesProgress(
+  filters: SourceFilters,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ sources: SourceProgress[]; total: number }> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const status = filters.status ?? null;
+    const type = filters.type ?? null;
+    const batch_id = filters.batch_id ?? null;
+
+    const rows = await db`
+      SELECT
+        s.id, s.url, s.type, s.status, s.error_message, s.batch_id,
+        s.archive_media, s.recursive, s.max_depth, s.videos_discovered, s.listing_errors,
+        s.schedule_interval_minutes, s.schedule_cron,
+        s.listing_started_at, s.listing_completed_at, s.last_run_at, s.next_run_at,
+        s.created_at, s.updated_at,
+        json_build_object(
+          'pending', COUNT(q.id) FILTER (WHERE q.status = 'pending'),
+          'claimed', COUNT(q.id) FILTER (WHERE q.status = 'claimed'),
+          'completed', COUNT(q.id) FILTER (WHERE q.status = 'completed'),
+          'skipped', COUNT(q.id) FILTER (WHERE q.status = 'skipped'),
+          'failed', COUNT(q.id) FILTER (WHERE q.status = 'failed')
+        ) AS counts,
+        COUNT(*) OVER() AS total_count
+      FROM scrape_sources s
+      LEFT JOIN source_video_queue q ON q.source_id = s.id
+      WHERE (${status}::text IS NULL OR s.status = ${status}::text)
+      AND (${type}::text IS NULL OR s.type = ${type}::text)
+      AND (${batch_id}::uuid IS NULL OR s.batch_id = ${batch_id}::uuid)
+      GROUP BY s.id
+      ORDER BY s.created_at DESC
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+    return {
+      sources: rows.map(({ total_count, ...source }) => source) as unknown as SourceProgress[],
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  });
+}
+
+/**
+ * Get a source with its queue counts
+ */
+export async function getSourceProgress(source_id: string): Promise<SourceProgress | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [source] = await db`
+      SELECT
+        s.id, s.url, s.type, s.status, s.error_message, s.batch_id,
+        s.archive_media, s.recursive, s.max_depth, s.videos_discovered, s.listing_errors,
+        s.schedule_interval_minutes, s.schedule_cron,
+        s.listing_started_at, s.listing_completed_at, s.last_run_at, s.next_run_at,
+        s.created_at, s.updated_at,
+        json_build_object(
+          'pending', COUNT(q.id) FILTER (WHERE q.status = 'pending'),
+          'claimed', COUNT(q.id) FILTER (WHERE q.status = 'claimed'),
+          'completed', COUNT(q.id) FILTER (WHERE q.status = 'completed'),
+          'skipped', COUNT(q.id) FILTER (WHERE q.status = 'skipped'),
+          'failed', COUNT(q.id) FILTER (WHERE q.status = 'failed')
+        ) AS counts
+      FROM scrape_sources s
+      LEFT JOIN source_video_queue q ON q.source_id = s.id
+      WHERE s.id = ${source_id}
+      GROUP BY s.id
+    `;
+
+    return (source as SourceProgress) || null;
+  });
+}
+
+/**
+ * Snapshot a bulk source's membership once its listing has finished
+ * Members this listing didn't see are marked removed - unless pages or
+ * sub-folders failed to list, since they may just have been missed
+ *
+ * A source enqueued again for the same URL starts from the membership of the
+ * last one that finished listing, so re-scrapes are compared with it too
+ */
+export async function recordSourceSnapshot(source_id: string): Promise<SourceSnapshot | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      WITH previous AS (
+        SELECT p.id
+        FROM scrape_sources p
+        JOIN scrape_sources s ON s.id = ${source_id}
+        WHERE p.url = s.url
+          AND p.type = s.type
+          AND p.recursive = s.recursive
+          AND p.max_depth IS NOT DISTINCT FROM s.max_depth
+          AND p.id <> s.id
+          AND p.created_at < s.created_at
+          AND p.listing_completed_at IS NOT NULL
+        ORDER BY p.listing_completed_at DESC
+        LIMIT 1
+      )
+      INSERT INTO source_videos (source_id, loom_video_id, folder_path, first_seen_at, last_seen_at, removed_at)
+      SELECT ${source_id}, pv.loom_video_id, pv.folder_path, pv.first_seen_at, pv.last_seen_at, pv.removed_at
+      FROM source_videos pv
+      WHERE pv.source_id IN (SELECT id FROM previous)
+      ON CONFLICT (source_id, loom_video_id)
+      DO UPDATE SET first_seen_at = LEAST(source_videos.first_seen_at, EXCLUDED.first_seen_at)
+    `;
+
+    const [snapshot] = await db`
+      WITH source AS (
+        SELECT listing_started_at, jsonb_array_length(listing_errors) = 0 AS complete
+        FROM scrape_sources
+        WHERE id = ${source_id} AND listing_started_at IS NOT NULL
+      ),
+      removed AS (
+        UPDATE source_videos sv
+        SET removed_at = NOW()
+        FROM source s
+        WHERE sv.source_id = ${source_id}
+          AND s.complete
+          AND sv.removed_at IS NULL
+          AND sv.last_seen_at < s.listing_started_at
+        RETURNING sv.loom_video_id
+      )
+      INSERT INTO source_snapshots (source_id, video_count, added, removed, complete)
+      SELECT
+        ${source_id},
+        (SELECT COUNT(*) FROM source_videos sv
+          WHERE sv.source_id = ${source_id} AND sv.last_seen_at >= s.listing_started_at),
+        COALESCE((SELECT jsonb_agg(sv.loom_video_id) FROM source_videos sv
+          WHERE sv.source_id = ${source_id} AND sv.first_seen_at >= s.listing_started_at), '[]'),
+        COALESCE((SELECT jsonb_agg(loom_video_id) FROM removed), '[]'),
+        s.complete
+      FROM source s
+      RETURNING *
+    `;
+
+    return (snapshot as SourceSnapshot) || null;
+  });
+}
+
+/**
+ * Get a source's membership snapshots, newest first
+ */
+export async function getSourceSnapshots(source_id: string): Promise<SourceSnapshot[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const snapshots = await db`
+      SELECT * FROM source_snapshots
+      WHERE source_id = ${source_id}
+      ORDER BY created_at DESC, id DESC
+    `;
+
+    return snapshots as unknown as SourceSnapshot[];
+  });
+}
+
+// =============================================================================
+// SOURCE SCHEDULE OPERATIONS
+// =============================================================================
+
+/**
+ * Set or clear (null) a source's recurring schedule
+ * The next run is counted from now
+ * Credentials that are given replace the stored ones; the rest are kept
+ *
+ * @returns The updated source, or null if it doesn't exist
+ */
+export async function setSourceSchedule(
+  source_id: string,
+  schedule: SourceSchedule | null,
+  cookies?: string,
+  password?: string
+): Promise<ScrapeSource | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const next_run_at = schedule ? nextScheduledRun(schedule, new Date()) : null;
+
+    const [source] = await db`
+      UPDATE scrape_sources
+      SET schedule_interval_minutes = ${schedule?.interval_minutes ?? null},
+          schedule_cron = ${schedule?.cron ?? null},
+          next_run_at = ${next_run_at},
+          cookies = COALESCE(${cookies ? encryptSecret(cookies) : null}, cookies),
+          password = COALESCE(${password ? encryptSecret(password) : null}, password),
+          updated_at = NOW()
+      WHERE id = ${source_id}
+      RETURNING *
+    `;
+
+    return (source as ScrapeSource) || null;
+  });
+}
+
+/**
+ * Get scheduled sources whose next run has passed
+ * Sources still running are left until they settle
+ */
+export async function getDueSources(limit: number = 20): Promise<ScrapeSource[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const sources = await db`
+      SELECT * FROM scrape_sources
+      WHERE next_run_at <= NOW()
+        AND status NOT IN ('pending', 'processing')
+      ORDER BY next_run_at ASC
+      LIMIT ${limit}
+    `;
+
+    return sources as unknown as ScrapeSource[];
+  });
+}
+
+/**
+ * Reset a due source for a fresh run and move its schedule forward
+ * Listing progress and the video queue start over; membership in source_videos
+ * is kept so the run's snapshot can tell which videos left the source
+ *
+ * Only one caller wins the reset, so it alone should dispatch the run
+ *
+ * @returns The reset source, or null if it isn't due (or another run started it)
+ */
+export async function startScheduledRun(
+  source_id: string,
+  next_run_at: Date | null
+): Promise<ScrapeSource | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [source] = await db`
+      WITH started AS (
+        UPDATE scrape_sources
+        SET status = 'pending',
+            error_message = NULL,
+            listing_state = NULL,
+            listing_errors = '[]',
+            videos_discovered = 0,
+            listing_started_at = NULL,
+            listing_completed_at = NULL,
+            force_rescrape = FALSE,
+            last_run_at = NOW(),
+            next_run_at = ${next_run_at},
+            updated_at = NOW()
+        WHERE id = ${source_id}
+          AND next_run_at <= NOW()
+          AND status NOT IN ('pending', 'processing')
+        RETURNING *
+      ),
+      cleared AS (
+        DELETE FROM source_video_queue
+        WHERE source_id IN (SELECT id FROM started)
+      )
+      SELECT * FROM started
+    `;
+
+    return (source as ScrapeSource) || null;
+  });
+}
+
+// =============================================================================
+// CREDENTIAL OPERATIONS
+// =============================================================================
+
+/**
+ * Clear the cookies and passwords of sources with no pending work left
+ * A source has pending work until it settles and the cron job has no video jobs
+ * of it left to retry; scheduled sources keep theirs for the next run.
+ * Video jobs lose theirs once they completed or ran out of attempts
+ *
+ * @param source_id - Purge only this source; omit to sweep every source
+ * @returns Number of sources purged
+ */
+export async function purgeSourceCredentials(source_id: string | null = null): Promise<number> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [result] = await db`
+      WITH purged AS (
+        UPDATE scrape_sources
+        SET cookies = NULL,
+            password = NULL,
+            video_passwords = '{}',
+            updated_at = NOW()
+        WHERE (${source_id}::uuid IS NULL OR id = ${source_id}::uuid)
+          AND status NOT IN ('pending', 'processing')
+          AND next_run_at IS NULL
+          AND (cookies IS NOT NULL OR password IS NOT NULL OR video_passwords <> '{}')
+          AND NOT EXISTS (
+            SELECT 1 FROM video_jobs j
+            WHERE j.source_id = scrape_sources.id
+              AND j.status IN ('pending', 'failed')
+              AND j.attempt_count < j.max_attempts
+          )
+        RETURNING id
+      ),
+      jobs AS (
+        UPDATE video_jobs
+        SET cookies = NULL,
+            password = NULL,
+            updated_at = NOW()
+        WHERE (cookies IS NOT NULL OR password IS NOT NULL)
+          AND (status = 'completed' OR attempt_count >= max_attempts)
+          AND (
+            source_id IN (SELECT id FROM purged)
+            OR (
+              ${source_id}::uuid IS NULL
+              AND (
+                source_id IS NULL
+                OR source_id IN (
+                  SELECT id FROM scrape_sources
+                  WHERE status NOT IN ('pending', 'processing') AND next_run_at IS NULL
+                )
+              )
+            )
+          )
+      )
+      SELECT COUNT(*)::int AS count FROM purged
+    `;
+
+    return result.count;
+  });
+}
+
+/**
+ * Re-encrypt up to `limit` rows per table whose credentials aren't under the
+ * current key: plaintext cookies stored before they were encrypted, and
+ * secrets from a previous key or format
+ * Rows changed since they were read are left for the next run
+ *
+ * @returns Number of rows re-encrypted
+ */
+export async function rotateCredentials(limit: number = 100): Promise<number> {
+  return withRetry(async () => {
+    const db = getDb();
+    const prefix = currentSecretPrefix();
+    const rotate = (value: string | null) => (value && needsReencryption(value) ? reencryptSecret(value) : value);
+
+    let rotated = 0;
+
+    const sources = await db`
+      SELECT id, cookies, password, video_passwords FROM scrape_sources
+      WHERE NOT starts_with(cookies, ${prefix})
+        OR NOT starts_with(password, ${prefix})
+        OR EXISTS (
+          SELECT 1 FROM jsonb_each_text(video_passwords) v
+          WHERE NOT starts_with(v.value, ${prefix})
+        )
+      LIMIT ${limit}
+    `;
+
+    for (const source of sources) {
+      const video_passwords = Object.fromEntries(
+        Object.entries(source.video_passwords as Record<string, string>).map(([video_id, value]) => [
+          video_id,
+          rotate(value),
+        ])
+      );
+
+      const updated = await db`
+        UPDATE scrape_sources
+        SET cookies = ${rotate(source.cookies)},
+            password = ${rotate(source.password)},
+            video_passwords = ${db.json(video_passwords)}
+        WHERE id = ${source.id}
+          AND cookies IS NOT DISTINCT FROM ${source.cookies}
+          AND password IS NOT DISTINCT FROM ${source.password}
+          AND video_passwords = ${db.json(source.video_passwords)}
+      `;
+      rotated += updated.count;
+    }
+
+    const jobs = await db`
+      SELECT id, cookies, password FROM video_jobs
+      WHERE NOT starts_with(cookies, ${prefix})
+        OR NOT starts_with(password, ${prefix})
+      LIMIT ${limit}
+    `;
+
+    for (const job of jobs) {
+      const updated = await db`
+        UPDATE video_jobs
+        SET cookies = ${rotate(job.cookies)},
+            password = ${rotate(job.password)}
+        WHERE id = ${job.id}
+          AND cookies IS NOT DISTINCT FROM ${job.cookies}
+          AND password IS NOT DISTINCT FROM ${job.password}
+      `;
+      rotated += updated.count;
+    }
+
+    const subscriptions = await db`
+      SELECT id, secret FROM webhook_subscriptions
+      WHERE NOT starts_with(secret, ${prefix})
+      LIMIT ${limit}
+    `;
+
+    for (const subscription of subscriptions) {
+      const updated = await db`
+        UPDATE webhook_subscriptions
+        SET secret = ${reencryptSecret(subscription.secret)}
+        WHERE id = ${subscription.id} AND secret = ${subscription.secret}
+      `;
+      rotated += updated.count;
+    }
+
+    return rotated;
+  });
+}
+
+// =============================================================================
+// SCRAPE BATCH OPERATIONS
+// =============================================================================
+
+/**
+ * Create a batch and one pending source per valid line, in one statement
+ * The options apply to every source; recursion only to folders
+ *
+ * @returns The created sources, all pointing at the new batch
+ */
+export async function createScrapeBatch(
+  sources: { url: string; type: JobType }[],
+  total_lines: number,
+  errors: BatchLineError[],
+  options: SourceOptions
+): Promise<ScrapeSource[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const { cookies, password, archive_media, recursive, max_depth, schedule, freshness, force } = options;
+    const next_run_at = schedule ? nextScheduledRun(schedule, new Date()) : null;
+
+    const rows = sources.map(({ url, type }) => ({
+      url,
+      type,
+      recursive: recursive && type === 'folder',
+      max_depth: recursive && type === 'folder' ? max_depth : null,
+    }));
+
+    const created = await db`
+      WITH batch AS (
+        INSERT INTO scrape_batches (total_lines, sources_created, errors)
+        VALUES (${total_lines}, ${rows.length}, ${json(errors)})
+        RETURNING id
+      )
+      INSERT INTO scrape_sources (
+        url, type, cookies, password, archive_media, recursive, max_depth,
+        schedule_interval_minutes, schedule_cron, last_run_at, next_run_at, freshness, force_rescrape,
+        batch_id, status
+      )
+      SELECT
+        r.url,
+        r.type,
+        ${cookies ? encryptSecret(cookies) : null},
+        ${password ? encryptSecret(password) : null},
+        ${archive_media},
+        r.recursive,
+        r.max_depth,
+        ${schedule?.interval_minutes ?? null},
+        ${schedule?.cron ?? null},
+        NOW(),
+        ${next_run_at},
+        ${freshness ? db.json(freshness) : null},
+        ${force},
+        batch.id,
+        'pending'
+      FROM jsonb_to_recordset(${db.json(rows)}) AS r(url TEXT, type TEXT, recursive BOOLEAN, max_depth INTEGER)
+      CROSS JOIN batch
+      RETURNING *
+    `;
+
+    return created as unknown as ScrapeSource[];
+  });
+}
+
+/**
+ * Get a batch with the aggregate status of its sources and their videos
+ */
+export async function getBatchProgress(batch_id: string): Promise<BatchProgress | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [batch] = await db`
+      SELECT
+        b.*,
+        (
+          SELECT json_build_object(
+            'pending', COUNT(*) FILTER (WHERE status = 'pending'),
+            'processing', COUNT(*) FILTER (WHERE status = 'processing'),
+            'completed', COUNT(*) FILTER (WHERE status = 'completed'),
+            'partially_failed', COUNT(*) FILTER (WHERE status = 'partially_failed'),
+            'failed', COUNT(*) FILTER (WHERE status = 'failed')
+          )
+          FROM scrape_sources
+          WHERE batch_id = b.id
+        ) AS sources,
+        (
+          SELECT json_build_object(
+            'pending', COUNT(*) FILTER (WHERE q.status = 'pending'),
+            'claimed', COUNT(*) FILTER (WHERE q.status = 'claimed'),
+            'completed', COUNT(*) FILTER (WHERE q.status = 'completed'),
+            'skipped', COUNT(*) FILTER (WHERE q.status = 'skipped'),
+            'failed', COUNT(*) FILTER (WHERE q.status = 'failed')
+          )
+          FROM source_video_queue q
+          JOIN scrape_sources s ON s.id = q.source_id
+          WHERE s.batch_id = b.id
+        ) AS videos
+      FROM scrape_batches b
+      WHERE b.id = ${batch_id}
+    `;
+
+    if (!batch) return null;
+
+    const sources = batch.sources as BatchProgress['sources'];
+
+    return {
+      ...(batch as ScrapeBatch),
+      status: sources.pending + sources.processing > 0 ? 'processing' : 'completed',
+      sources,
+      videos: batch.videos as SourceQueueCounts,
+    };
+  });
+}
+
+// =============================================================================
+// VIDEO JOBS OPERATIONS
+// =============================================================================
+
+/**
+ * Create a video job (or update if exists)
+ * Uses UPSERT to handle idempotency
+ */
+export async function createVideoJob(
+  loom_video_id: string,
+  source_id?: string,
+  cookies?: string,
+  password?: string,
+  archive_media: boolean = false,
+  folder_path?: string
+): Promise<VideoJob> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const encrypted_cookies = cookies ? encryptSecret(cookies) : null;
+    const encrypted_password = password ? encryptSecret(password) : null;
+
+    const [job] = await db`
+      INSERT INTO video_jobs (loom_video_id, source_id, cookies, password, archive_media, folder_path, status)
+      VALUES (${loom_video_id}, ${source_id || null}, ${encrypted_cookies}, ${encrypted_password}, ${archive_media}, ${folder_path ?? null}, 'pending')
+      ON CONFLICT (loom_video_id)
+      DO UPDATE SET
+        source_id = COALESCE(EXCLUDED.source_id, video_jobs.source_id),
+        cookies = COALESCE(EXCLUDED.cookies, video_jobs.cookies),
+        password = COALESCE(EXCLUDED.password, video_jobs.password),
+        archive_media = EXCLUDED.archive_media OR video_jobs.archive_media,
+        folder_path = COALESCE(EXCLUDED.folder_path, video_jobs.folder_path),
+        updated_at = NOW()
+      RETURNING *
+    `;
+
+    return job as VideoJob;
+  });
+}
+
+/**
+ * Get pending video jobs for processing
+ * Returns jobs that haven't exceeded max attempts
+ */
+export async function getPendingVideoJobs(limit: number = 10): Promise<VideoJob[]> {
+  const db = getDb();
+
+  const jobs = await db`
+    SELECT * FROM video_jobs
+    WHERE status IN ('pending', 'failed')
+    AND attempt_count < max_attempts
+    ORDER BY created_at ASC
+    LIMIT ${limit}
+  `;
+
+  return jobs as unknown as VideoJob[];
+}
+
+/**
+ * Mark a video job as processing
+ */
+export async function markJobProcessing(job_id: string): Promise<void> {
+  const db = getDb();
+
+  await db`
+    UPDATE video_jobs
+    SET status = 'processing',
+        attempt_count = attempt_count + 1,
+        updated_at = NOW()
+    WHERE id = ${job_id}
+  `;
+}
+
+/**
+ * Mark a video job as completed
+ * Its credentials aren't needed again, so they are cleared
+ */
+export async function markJobCompleted(job_id: string): Promise<void> {
+  const db = getDb();
+
+  await db`
+    UPDATE video_jobs
+    SET status = 'completed',
+        cookies = NULL,
+        password = NULL,
+        processed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${job_id}
+  `;
+}
+
+/**
+ * Mark a video job as failed
+ */
+export async function markJobFailed(job_id: string, error_message: string): Promise<void> {
+  const db = getDb();
+
+  await db`
+    UPDATE video_jobs
+    SET status = 'failed',
+        error_message = ${error_message},
+        updated_at = NOW()
+    WHERE id = ${job_id}
+  `;
+}
+
+/**
+ * Get job by loom video ID
+ */
+export async function getJobByLoomVideoId(loom_video_id: string): Promise<VideoJob | null> {
+  const db = getDb();
+
+  const [job] = await db`
+    SELECT * FROM video_jobs
+    WHERE loom_video_id = ${loom_video_id}
+    LIMIT 1
+  `;
+
+  return (job as VideoJob) || null;
+}
+
+// =============================================================================
+// VIDEOS OPERATIONS (PERSISTED DATA)
+// =============================================================================
+
+/**
+ * Save or update scraped video data
+ * Uses UPSERT for idempotency
+ * The video, its owner, comments, reactions and revision are written in one transaction
+ * Includes retry logic for connection failures
+ *
+ * @param all_comments - Every comment Loom returned, tombstones included; null
+ *                       (the comments request failed) leaves the comments table as it is
+ * @param all_reactions - Every reaction Loom returned; null (the reactions request
+ *                        failed) leaves the reactions table as it is
+ */
+export async function saveVideo(
+  video: LoomVideo,
+  all_comments: LoomComment[] | null = video.comments,
+  all_reactions: Reaction[] | null = video.reactions
+): Promise<PersistedVideo> {
+  return withRetry(() => getDb().begin(async (tx) => {
+    // TransactionSql loses the call signatures in postgres.js typings
+    const db = tx as unknown as postgres.Sql;
+
+    // Plain text fed to the full-text search vectors
+    const transcript_text = (video.transcript || []).map((segment) => segment.value).join(' ');
+    const comments_text = video.comments
+      .flatMap((comment) => [comment.content, ...comment.replies.map((reply) => reply.content)])
+      .join(' ');
+
+    if (video.owner_id) {
+      await saveOwner(video.owner_id, video.owner_name, video.owner_avatar_url, db);
+    }
+
+    const [saved] = await db`
       INSERT INTO videos (
         loom_video_id,
         title,
         duration,
         thumbnail,
+        animated_thumbnail,
         description,
+        owner_id,
         owner_name,
         owner_avatar_url,
         loom_created_at,
         reactions,
         comments,
         transcript,
+        transcript_language,
+        transcripts,
         chapters,
         tags,
-        raw_data
+        raw_data,
+        title_tsv,
+        description_tsv,
+        transcript_tsv,
+        comments_tsv,
+        availability_checked_at
       ) VALUES (
         ${video.id},
         ${video.title},
         ${Math.round(video.duration)},
         ${video.thumbnail},
+        ${video.animated_thumbnail},
         ${video.description},
+        ${video.owner_id},
         ${video.owner_name},
         ${video.owner_avatar_url},
         ${video.created_at},
         ${json(video.reactions)},
         ${json(video.comments)},
         ${video.transcript ? json(video.transcript) : null},
+        ${video.transcript_language},
+        ${json(video.transcripts || [])},
         ${video.chapters ? json(video.chapters) : null},
         ${json(video.tags)},
-        ${json(video)}
+        ${json(video)},
+        to_tsvector('english', ${video.title}),
+        to_tsvector('english', ${video.description || ''}),
+        to_tsvector('english', ${transcript_text}),
+        to_tsvector('english', ${comments_text}),
+        NOW()
+      )
+      ON CONFLICT (loom_video_id)
+      DO UPDATE SET
+        title = EXCLUDED.title,
+        duration = EXCLUDED.duration,
+        thumbnail = EXCLUDED.thumbnail,
+        animated_thumbnail = EXCLUDED.animated_thumbnail,
+        description = EXCLUDED.description,
+        owner_id = EXCLUDED.owner_id,
+        owner_name = EXCLUDED.owner_name,
+        owner_avatar_url = EXCLUDED.owner_avatar_url,
+        loom_created_at = EXCLUDED.loom_created_at,
+        reactions = EXCLUDED.reactions,
+        comments = EXCLUDED.comments,
+        transcript = EXCLUDED.transcript,
+        transcript_language = EXCLUDED.transcript_language,
+        transcripts = EXCLUDED.transcripts,
+        chapters = EXCLUDED.chapters,
+        tags = EXCLUDED.tags,
+        raw_data = EXCLUDED.raw_data,
+        title_tsv = EXCLUDED.title_tsv,
+        description_tsv = EXCLUDED.description_tsv,
+        transcript_tsv = EXCLUDED.transcript_tsv,
+        comments_tsv = EXCLUDED.comments_tsv,
+        availability = 'available',
+        unavailable_since = NULL,
+        availability_checked_at = NOW(),
+        updated_at = NOW()
+      RETURNING *
+    `;
+
+    console.log(`[DB] Saved video: ${video.id} - "${video.title}"`);
+
+    if (all_comments) {
+      await saveComments(video.id, all_comments, db);
+    }
+    if (all_reactions) {
+      await saveReactions(video.id, all_reactions, db);
+    }
+    await recordVideoRevision(video, db);
+
+    return saved as PersistedVideo;
+  }));
+}
+
+/**
+ * Record where a video's media file was archived
+ */
+export async function saveVideoMedia(loom_video_id: string, media: MediaArchive): Promise<void> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      UPDATE videos
+      SET media_storage_backend = ${media.storage_backend},
+          media_storage_key = ${media.storage_key},
+          media_checksum = ${media.checksum},
+          media_size = ${media.size},
+          media_content_type = ${media.content_type},
+          media_archived_at = NOW()
+      WHERE loom_video_id = ${loom_video_id}
+    `;
+  });
+}
+
+/**
+ * Record stored thumbnail copies
+ * Images that failed to store keep their previous copy
+ */
+export async function saveVideoThumbnails(
+  loom_video_id: string,
+  thumbnails: ThumbnailArchive
+): Promise<void> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      UPDATE videos
+      SET thumbnail_storage_key = COALESCE(${thumbnails.thumbnail?.storage_key ?? null}, thumbnail_storage_key),
+          thumbnail_content_type = COALESCE(${thumbnails.thumbnail?.content_type ?? null}, thumbnail_content_type),
+          animated_thumbnail_storage_key = COALESCE(${thumbnails.animated_thumbnail?.storage_key ?? null}, animated_thumbnail_storage_key),
+          animated_thumbnail_content_type = COALESCE(${thumbnails.animated_thumbnail?.content_type ?? null}, animated_thumbnail_content_type)
+      WHERE loom_video_id = ${loom_video_id}
+    `;
+  });
+}
+
+/**
+ * Get video by Loom video ID
+ */
+export async function getVideoByLoomId(loom_video_id: string): Promise<PersistedVideo | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [video] = await db`
+      SELECT * FROM videos
+      WHERE loom_video_id = ${loom_video_id}
+      LIMIT 1
+    `;
+
+    return (video as PersistedVideo) || null;
+  });
+}
+
+/**
+ * Get all videos with pagination
+ */
+export async function getVideos(
+  limit: number = 50,
+  offset: number = 0,
+  availability?: VideoAvailability
+): Promise<{ videos: PersistedVideo[]; total: number }> {
+  const db = getDb();
+
+  const videos = await db`
+    SELECT * FROM videos
+    WHERE (${availability ?? null}::text IS NULL OR availability = ${availability ?? null})
+    ORDER BY scraped_at DESC
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const [{ count }] = await db`
+    SELECT COUNT(*) as count FROM videos
+    WHERE (${availability ?? null}::text IS NULL OR availability = ${availability ?? null})
+  `;
+
+  return {
+    videos: videos as unknown as PersistedVideo[],
+    total: Number(count),
+  };
+}
+
+/**
+ * Get videos by source ID (all videos from a folder)
+ * Uses source membership, so videos shared with other sources are included
+ * Videos still on Loom but no longer in the source count as removed_from_source
+ */
+export async function getVideosBySourceId(
+  source_id: string,
+  availability?: VideoAvailability
+): Promise<PersistedVideo[]> {
+  const db = getDb();
+
+  const videos = await db`
+    SELECT v.*, sv.folder_path, sv.removed_at AS removed_from_source_at FROM videos v
+    INNER JOIN source_videos sv ON v.loom_video_id = sv.loom_video_id
+    WHERE sv.source_id = ${source_id}
+      AND (
+        ${availability ?? null}::text IS NULL
+        OR ${availability ?? null} = CASE
+          WHEN v.availability <> 'available' THEN v.availability
+          WHEN sv.removed_at IS NOT NULL THEN 'removed_from_source'
+          ELSE 'available'
+        END
+      )
+    ORDER BY v.scraped_at DESC
+  `;
+
+  return videos as unknown as PersistedVideo[];
+}
+
+/**
+ * Record that Loom no longer serves a stored video
+ * `unavailable_since` keeps the time it was first seen in this state
+ *
+ * @returns False if the video has never been stored
+ */
+export async function markVideoUnavailable(
+  loom_video_id: string,
+  availability: 'deleted' | 'access_revoked'
+): Promise<boolean> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const rows = await db`
+      UPDATE videos
+      SET unavailable_since = CASE
+            WHEN availability = ${availability} THEN unavailable_since
+            ELSE NOW()
+          END,
+          availability = ${availability},
+          availability_checked_at = NOW()
+      WHERE loom_video_id = ${loom_video_id}
+      RETURNING id
+    `;
+
+    return rows.length > 0;
+  });
+}
+
+/**
+ * Full-text search across titles, descriptions, transcript segments and comments
+ * Returns one hit per matching field (per segment for transcripts, per comment/reply for comments)
+ */
+export async function searchVideos(
+  query: string,
+  limit: number = 20,
+  offset: number = 0
+): Promise<{ hits: SearchHit[]; total: number }> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const rows = await db`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS query),
+      hits AS (
+        SELECT v.loom_video_id, v.title, 'title' AS field,
+          ts_headline('english', v.title, q.query) AS snippet,
+          ts_rank(v.title_tsv, q.query) AS rank,
+          NULL::FLOAT AS ts, NULL::TEXT AS comment_id
+        FROM videos v, q
+        WHERE v.title_tsv @@ q.query
+
+        UNION ALL
+
+        SELECT v.loom_video_id, v.title, 'description',
+          ts_headline('english', v.description, q.query),
+          ts_rank(v.description_tsv, q.query),
+          NULL::FLOAT, NULL::TEXT
+        FROM videos v, q
+        WHERE v.description_tsv @@ q.query
+
+        UNION ALL
+
+        SELECT v.loom_video_id, v.title, 'transcript',
+          ts_headline('english', seg->>'value', q.query),
+          ts_rank(to_tsvector('english', seg->>'value'), q.query),
+          (seg->>'ts')::FLOAT, NULL::TEXT
+        FROM videos v, q, jsonb_array_elements(v.transcript) seg
+        WHERE v.transcript_tsv @@ q.query
+        AND to_tsvector('english', seg->>'value') @@ q.query
+
+        UNION ALL
+
+        SELECT v.loom_video_id, v.title, 'comment',
+          ts_headline('english', c.value->>'content', q.query),
+          ts_rank(to_tsvector('english', c.value->>'content'), q.query),
+          (c.value->>'video_timestamp')::FLOAT, c.value->>'id'
+        FROM videos v, q,
+          LATERAL (
+            SELECT value FROM jsonb_array_elements(v.comments)
+            UNION ALL
+            SELECT r FROM jsonb_array_elements(v.comments) parent,
+              jsonb_array_elements(parent->'replies') r
+          ) c
+        WHERE v.comments_tsv @@ q.query
+        AND to_tsvector('english', c.value->>'content') @@ q.query
       )
-      ON CONFLICT (loom_video_id)
+      SELECT *, COUNT(*) OVER() AS total_count FROM hits
+      ORDER BY rank DESC, loom_video_id, ts NULLS FIRST
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+    const hits: SearchHit[] = rows.map((row) => ({
+      video_id: row.loom_video_id,
+      title: row.title,
+      field: row.field,
+      snippet: row.snippet,
+      rank: Number(row.rank),
+      ts: row.ts === null ? null : Number(row.ts),
+      comment_id: row.comment_id,
+    }));
+
+    return {
+      hits,
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  });
+}
+
+// =============================================================================
+// COMMENTS & REACTIONS OPERATIONS
+// =============================================================================
+
+/**
+ * Upsert a video's comments and replies into the comments table
+ * Rows no longer returned by Loom become tombstones, like the ones Loom returns itself
+ */
+async function saveComments(
+  loom_video_id: string,
+  comments: LoomComment[],
+  db: postgres.Sql = getDb()
+): Promise<void> {
+  const rows = comments.flatMap((comment) => [
+    { comment: { ...comment, reaction: null } as CommentReply, parent_id: null as string | null },
+    ...comment.replies.map((reply) => ({ comment: reply, parent_id: comment.id })),
+  ]).map(({ comment, parent_id }) => ({
+    id: comment.id,
+    loom_video_id,
+    parent_id,
+    guid: comment.guid ?? null,
+    author: comment.author,
+    user_id: comment.user_id ?? null,
+    anon_user_id: comment.anon_user_id ?? null,
+    content: comment.content,
+    mentions: json(comment.mentions || []),
+    video_timestamp: comment.video_timestamp,
+    avatar_url: comment.avatar_url,
+    loom_created_at: comment.created_at,
+    edited: comment.edited,
+    is_chat_message: comment.is_chat_message ?? false,
+    reaction: comment.reaction ?? null,
+    deleted_at: comment.deleted_at ?? null,
+  }));
+
+  if (rows.length > 0) {
+    await db`
+      INSERT INTO comments ${db(rows)}
+      ON CONFLICT (id)
       DO UPDATE SET
-        title = EXCLUDED.title,
-        duration = EXCLUDED.duration,
-        thumbnail = EXCLUDED.thumbnail,
-        description = EXCLUDED.description,
-        owner_name = EXCLUDED.owner_name,
-        owner_avatar_url = EXCLUDED.owner_avatar_url,
-        loom_created_at = EXCLUDED.loom_created_at,
-        reactions = EXCLUDED.reactions,
-        comments = EXCLUDED.comments,
-        transcript = EXCLUDED.transcript,
-        chapters = EXCLUDED.chapters,
-        tags = EXCLUDED.tags,
-        raw_data = EXCLUDED.raw_data,
+        parent_id = EXCLUDED.parent_id,
+        guid = EXCLUDED.guid,
+        author = EXCLUDED.author,
+        user_id = EXCLUDED.user_id,
+        anon_user_id = EXCLUDED.anon_user_id,
+        content = EXCLUDED.content,
+        mentions = EXCLUDED.mentions,
+        video_timestamp = EXCLUDED.video_timestamp,
+        avatar_url = EXCLUDED.avatar_url,
+        edited = EXCLUDED.edited,
+        is_chat_message = EXCLUDED.is_chat_message,
+        reaction = EXCLUDED.reaction,
+        deleted_at = COALESCE(comments.deleted_at, EXCLUDED.deleted_at),
         updated_at = NOW()
-      RETURNING *
     `;
+  }
 
-    console.log(`[DB] Saved video: ${video.id} - "${video.title}"`);
-    return saved as PersistedVideo;
+  await db`
+    UPDATE comments
+    SET deleted_at = COALESCE(deleted_at, NOW()),
+        content = '',
+        mentions = '[]',
+        updated_at = NOW()
+    WHERE loom_video_id = ${loom_video_id}
+    AND deleted_at IS NULL
+    AND NOT (id = ANY(${db.array(rows.map((row) => row.id))}::text[]))
+  `;
+}
+
+/**
+ * Upsert a video's reactions into the reactions table
+ * Rows no longer returned by Loom are removed so the table mirrors the latest scrape
+ */
+async function saveReactions(
+  loom_video_id: string,
+  reactions: Reaction[],
+  db: postgres.Sql = getDb()
+): Promise<void> {
+  const rows = reactions.map((reaction) => ({
+    id: reaction.id,
+    loom_video_id,
+    user_name: reaction.user_name,
+    reaction: reaction.reaction,
+    video_timestamp: reaction.video_timestamp,
+  }));
+
+  if (rows.length > 0) {
+    await db`
+      INSERT INTO reactions ${db(rows)}
+      ON CONFLICT (id)
+      DO UPDATE SET
+        user_name = EXCLUDED.user_name,
+        reaction = EXCLUDED.reaction,
+        video_timestamp = EXCLUDED.video_timestamp,
+        updated_at = NOW()
+    `;
+  }
+
+  await db`
+    DELETE FROM reactions
+    WHERE loom_video_id = ${loom_video_id}
+    AND NOT (id = ANY(${db.array(rows.map((row) => row.id))}::text[]))
+  `;
+}
+
+/**
+ * Query comments and replies, newest first
+ * Filters are optional; author matching is case-insensitive
+ * Tombstones of deleted comments are excluded unless include_deleted is set
+ */
+export async function getComments(
+  filters: CommentFilters,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ comments: StoredComment[]; total: number }> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const author = filters.author ?? null;
+    const user_id = filters.user_id ?? null;
+    const mentioned = filters.mentioned ? JSON.stringify([{ user_id: filters.mentioned }]) : null;
+    const since = filters.since ?? null;
+    const video_id = filters.video_id ?? null;
+    const unanswered = filters.unanswered ?? false;
+    const include_deleted = filters.include_deleted ?? false;
+
+    const rows = await db`
+      SELECT c.*,
+        (SELECT COUNT(*)::int FROM comments r WHERE r.parent_id = c.id AND r.deleted_at IS NULL) AS reply_count,
+        COUNT(*) OVER() AS total_count
+      FROM comments c
+      WHERE (${author}::text IS NULL OR LOWER(c.author) = LOWER(${author}::text))
+      AND (${user_id}::text IS NULL OR c.user_id = ${user_id}::text)
+      AND (${mentioned}::jsonb IS NULL OR c.mentions @> ${mentioned}::jsonb)
+      AND (${since}::timestamptz IS NULL OR c.loom_created_at >= ${since}::timestamptz)
+      AND (${video_id}::text IS NULL OR c.loom_video_id = ${video_id}::text)
+      AND (${include_deleted}::boolean OR c.deleted_at IS NULL)
+      AND (
+        NOT ${unanswered}::boolean
+        OR (
+          c.parent_id IS NULL
+          AND NOT EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = c.id AND r.deleted_at IS NULL)
+        )
+      )
+      ORDER BY c.loom_created_at DESC
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+    return {
+      comments: rows.map(({ total_count, ...comment }) => comment) as unknown as StoredComment[],
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
   });
 }
 
 /**
- * Get video by Loom video ID
+ * Query reactions, most recently seen first
+ * `since` applies to when the reaction was first scraped, as Loom doesn't expose a creation time
  */
-export async function getVideoByLoomId(loom_video_id: string): Promise<PersistedVideo | null> {
+export async function getReactions(
+  filters: ReactionFilters,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ reactions: StoredReaction[]; total: number }> {
   return withRetry(async () => {
     const db = getDb();
 
-    const [video] = await db`
-      SELECT * FROM videos
-      WHERE loom_video_id = ${loom_video_id}
-      LIMIT 1
+    const user_name = filters.user_name ?? null;
+    const since = filters.since ?? null;
+    const video_id = filters.video_id ?? null;
+
+    const rows = await db`
+      SELECT *, COUNT(*) OVER() AS total_count
+      FROM reactions
+      WHERE (${user_name}::text IS NULL OR LOWER(user_name) = LOWER(${user_name}::text))
+      AND (${since}::timestamptz IS NULL OR first_seen_at >= ${since}::timestamptz)
+      AND (${video_id}::text IS NULL OR loom_video_id = ${video_id}::text)
+      ORDER BY first_seen_at DESC, loom_video_id, video_timestamp
+      LIMIT ${limit}
+      OFFSET ${offset}
     `;
 
-    return (video as PersistedVideo) || null;
+    return {
+      reactions: rows.map(({ total_count, ...reaction }) => reaction) as unknown as StoredReaction[],
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
   });
 }
 
+// =============================================================================
+// VIDEO REVISIONS OPERATIONS
+// =============================================================================
+
+// Attempts at numbering a revision while concurrent scrapes take the same number
+const REVISION_ATTEMPTS = 5;
+
 /**
- * Get all videos with pagination
+ * Store a snapshot of the video if its content differs from the latest revision
+ * Returns the new revision number, or null if nothing changed
+ *
+ * The next number is taken from the latest revision in the same statement.
+ * A concurrent scrape can still claim it first (UNIQUE(loom_video_id, revision)),
+ * in which case the comparison is repeated against that revision
  */
-export async function getVideos(
+export async function recordVideoRevision(
+  video: LoomVideo,
+  db: postgres.Sql = getDb()
+): Promise<number | null> {
+  const content_hash = hashVideoContent(video);
+
+  for (let attempt = 1; attempt <= REVISION_ATTEMPTS; attempt++) {
+    const [result] = await db`
+      WITH latest AS (
+        SELECT revision, content_hash FROM video_revisions
+        WHERE loom_video_id = ${video.id}
+        ORDER BY revision DESC
+        LIMIT 1
+      ),
+      inserted AS (
+        INSERT INTO video_revisions (loom_video_id, revision, content_hash, snapshot)
+        SELECT ${video.id}, COALESCE((SELECT revision FROM latest), 0) + 1, ${content_hash}, ${json(video)}
+        WHERE (SELECT content_hash FROM latest) IS DISTINCT FROM ${content_hash}
+        ON CONFLICT (loom_video_id, revision) DO NOTHING
+        RETURNING revision
+      )
+      SELECT
+        (SELECT revision FROM inserted) AS revision,
+        COALESCE((SELECT content_hash FROM latest) = ${content_hash}, FALSE) AS unchanged
+    `;
+
+    if (result.unchanged) {
+      return null;
+    }
+
+    if (result.revision !== null) {
+      console.log(`[DB] Recorded revision ${result.revision} for video: ${video.id}`);
+      return Number(result.revision);
+    }
+  }
+
+  throw new Error(`Could not number a new revision for video ${video.id}`);
+}
+
+/**
+ * Get all revisions of a video, oldest first
+ */
+export async function getVideoRevisions(loom_video_id: string): Promise<VideoRevision[]> {
+  const db = getDb();
+
+  const revisions = await db`
+    SELECT * FROM video_revisions
+    WHERE loom_video_id = ${loom_video_id}
+    ORDER BY revision ASC
+  `;
+
+  return revisions as unknown as VideoRevision[];
+}
+
+/**
+ * Get a specific revision of a video
+ */
+export async function getVideoRevision(
+  loom_video_id: string,
+  revision: number
+): Promise<VideoRevision | null> {
+  const db = getDb();
+
+  const [found] = await db`
+    SELECT * FROM video_revisions
+    WHERE loom_video_id = ${loom_video_id}
+    AND revision = ${revision}
+    LIMIT 1
+  `;
+
+  return (found as VideoRevision) || null;
+}
+
+/**
+ * Get the revision that was current at a point in time
+ */
+export async function getVideoRevisionAt(
+  loom_video_id: string,
+  at: Date
+): Promise<VideoRevision | null> {
+  const db = getDb();
+
+  const [found] = await db`
+    SELECT * FROM video_revisions
+    WHERE loom_video_id = ${loom_video_id}
+    AND created_at <= ${at}
+    ORDER BY revision DESC
+    LIMIT 1
+  `;
+
+  return (found as VideoRevision) || null;
+}
+
+// =============================================================================
+// OWNERS OPERATIONS
+// =============================================================================
+
+/**
+ * Create or update a video owner
+ * Missing name/avatar values keep what was previously stored
+ */
+async function saveOwner(
+  owner_id: string,
+  name: string | null,
+  avatar_url: string | null,
+  db: postgres.Sql = getDb()
+): Promise<void> {
+  await db`
+    INSERT INTO owners (id, name, avatar_url)
+    VALUES (${owner_id}, ${name}, ${avatar_url})
+    ON CONFLICT (id)
+    DO UPDATE SET
+      name = COALESCE(EXCLUDED.name, owners.name),
+      avatar_url = COALESCE(EXCLUDED.avatar_url, owners.avatar_url),
+      updated_at = NOW()
+  `;
+}
+
+/**
+ * Get all owners with their video counts, most prolific first
+ */
+export async function getOwners(
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ owners: Owner[]; total: number }> {
+  const db = getDb();
+
+  const owners = await db`
+    SELECT o.*, COUNT(v.id)::int AS video_count
+    FROM owners o
+    LEFT JOIN videos v ON v.owner_id = o.id
+    GROUP BY o.id
+    ORDER BY video_count DESC, o.name ASC
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const [{ count }] = await db`SELECT COUNT(*) as count FROM owners`;
+
+  return {
+    owners: owners as unknown as Owner[],
+    total: Number(count),
+  };
+}
+
+/**
+ * Get an owner by Loom user ID
+ */
+export async function getOwnerById(owner_id: string): Promise<Owner | null> {
+  const db = getDb();
+
+  const [owner] = await db`
+    SELECT o.*, (SELECT COUNT(*)::int FROM videos v WHERE v.owner_id = o.id) AS video_count
+    FROM owners o
+    WHERE o.id = ${owner_id}
+    LIMIT 1
+  `;
+
+  return (owner as Owner) || null;
+}
+
+/**
+ * Get all videos by an owner with pagination
+ */
+export async function getVideosByOwnerId(
+  owner_id: string,
   limit: number = 50,
   offset: number = 0
 ): Promise<{ videos: PersistedVideo[]; total: number }> {
@@ -400,12 +2431,13 @@ export async function getVideos(
 
   const videos = await db`
     SELECT * FROM videos
-    ORDER BY scraped_at DESC
+    WHERE owner_id = ${owner_id}
+    ORDER BY loom_created_at DESC NULLS LAST
     LIMIT ${limit}
     OFFSET ${offset}
   `;
 
-  const [{ count }] = await db`SELECT COUNT(*) as count FROM videos`;
+  const [{ count }] = await db`SELECT COUNT(*) as count FROM videos WHERE owner_id = ${owner_id}`;
 
   return {
     videos: videos as unknown as PersistedVideo[],
@@ -413,36 +2445,162 @@ export async function getVideos(
   };
 }
 
+// =============================================================================
+// WEBHOOK OPERATIONS
+// =============================================================================
+
 /**
- * Get videos by source ID (all videos from a folder)
+ * Create a webhook subscription
+ * The signing secret is encrypted before it is stored
  */
-export async function getVideosBySourceId(source_id: string): Promise<PersistedVideo[]> {
+export async function createWebhookSubscription(
+  url: string,
+  events: WebhookEvent[],
+  secret: string,
+  description?: string
+): Promise<WebhookSubscription> {
   const db = getDb();
 
-  const videos = await db`
-    SELECT v.* FROM videos v
-    INNER JOIN video_jobs vj ON v.loom_video_id = vj.loom_video_id
-    WHERE vj.source_id = ${source_id}
-    ORDER BY v.scraped_at DESC
+  const [subscription] = await db`
+    INSERT INTO webhook_subscriptions (url, secret, events, description)
+    VALUES (${url}, ${encryptSecret(secret)}, ${db.json(events)}, ${description || null})
+    RETURNING id, url, events, description, active, created_at, updated_at
   `;
 
-  return videos as unknown as PersistedVideo[];
+  return subscription as WebhookSubscription;
 }
 
 /**
- * Check if video needs re-scraping based on last update time
- * Returns true if video was scraped more than 24 hours ago or doesn't exist
+ * Get all webhook subscriptions (without secrets)
  */
-export async function needsRescrape(loom_video_id: string, hours: number = 24): Promise<boolean> {
+export async function getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
   const db = getDb();
 
-  // Use raw interval calculation instead of INTERVAL with template
-  const [result] = await db`
-    SELECT 1 FROM videos
-    WHERE loom_video_id = ${loom_video_id}
-    AND updated_at > NOW() - (${hours} || ' hours')::INTERVAL
-    LIMIT 1
+  const subscriptions = await db`
+    SELECT id, url, events, description, active, created_at, updated_at
+    FROM webhook_subscriptions
+    ORDER BY created_at ASC
+  `;
+
+  return subscriptions as unknown as WebhookSubscription[];
+}
+
+/**
+ * Delete a webhook subscription and its delivery log
+ * Returns false if it didn't exist
+ */
+export async function deleteWebhookSubscription(subscription_id: string): Promise<boolean> {
+  const db = getDb();
+
+  const deleted = await db`
+    DELETE FROM webhook_subscriptions
+    WHERE id = ${subscription_id}
+    RETURNING id
+  `;
+
+  return deleted.length > 0;
+}
+
+/**
+ * Create a pending delivery for every active subscription to an event
+ */
+export async function createWebhookDeliveries(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<WebhookDelivery[]> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const deliveries = await db`
+      INSERT INTO webhook_deliveries (subscription_id, event, data)
+      SELECT id, ${event}, ${json(data)}
+      FROM webhook_subscriptions
+      WHERE active AND events ? ${event}
+      RETURNING *
+    `;
+
+    return deliveries as unknown as WebhookDelivery[];
+  });
+}
+
+/**
+ * Get a delivery with its subscription's URL and decrypted secret
+ */
+export async function getWebhookDeliveryTarget(
+  delivery_id: string
+): Promise<{ delivery: WebhookDelivery; url: string; secret: string } | null> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    const [row] = await db`
+      SELECT d.*, s.url AS target_url, s.secret AS target_secret
+      FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.id = ${delivery_id}
+      LIMIT 1
+    `;
+
+    if (!row) return null;
+
+    const { target_url, target_secret, ...delivery } = row;
+    return {
+      delivery: delivery as WebhookDelivery,
+      url: target_url,
+      secret: decryptSecret(target_secret),
+    };
+  });
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export async function recordWebhookAttempt(
+  delivery_id: string,
+  status: WebhookDeliveryStatus,
+  response_status: number | null,
+  error_message?: string
+): Promise<void> {
+  return withRetry(async () => {
+    const db = getDb();
+
+    await db`
+      UPDATE webhook_deliveries
+      SET status = ${status},
+          attempt_count = attempt_count + 1,
+          response_status = ${response_status},
+          error_message = ${error_message || null},
+          delivered_at = CASE WHEN ${status} = 'delivered' THEN NOW() ELSE delivered_at END,
+          updated_at = NOW()
+      WHERE id = ${delivery_id}
+    `;
+  });
+}
+
+/**
+ * Get the delivery log for a subscription, newest first
+ */
+export async function getWebhookDeliveries(
+  subscription_id: string,
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const db = getDb();
+
+  const deliveries = await db`
+    SELECT * FROM webhook_deliveries
+    WHERE subscription_id = ${subscription_id}
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const [{ count }] = await db`
+    SELECT COUNT(*) as count FROM webhook_deliveries
+    WHERE subscription_id = ${subscription_id}
   `;
 
-  return !result;
+  return {
+    deliveries: deliveries as unknown as WebhookDelivery[],
+    total: Number(count),
+  };
 }
@@ -0,0 +1,95 @@
+import type { FreshnessMode, FreshnessPolicy, PersistedVideo, ScrapeSource } from './types.js';
+
+// =============================================================================
+// FRESHNESS POLICY - Decides when a stored video is scraped again
+// =============================================================================
+// Resolved from, in order of precedence:
+// 1. A forced run (force: true on enqueue)
+// 2. The source's own policy (freshness on enqueue)
+// 3. The global policy (FRESHNESS_MODE and FRESHNESS_MAX_AGE_HOURS)
+// =============================================================================
+
+export const FRESHNESS_MODES: FreshnessMode[] = ['stale', 'incomplete', 'force'];
+
+const DEFAULT_FRESHNESS: FreshnessPolicy = { mode: 'stale', max_age_hours: 24 };
+
+/**
+ * Global policy from the environment, falling back to re-scraping after 24 hours
+ */
+export function getGlobalFreshness(): FreshnessPolicy {
+  const mode = process.env.FRESHNESS_MODE as FreshnessMode | undefined;
+  const max_age_hours = Number(process.env.FRESHNESS_MAX_AGE_HOURS);
+
+  return {
+    mode: mode && FRESHNESS_MODES.includes(mode) ? mode : DEFAULT_FRESHNESS.mode,
+    max_age_hours:
+      process.env.FRESHNESS_MAX_AGE_HOURS && max_age_hours >= 0 ? max_age_hours : DEFAULT_FRESHNESS.max_age_hours,
+  };
+}
+
+/**
+ * Validate a freshness policy from an API request
+ *
+ * @returns An error message, or null if the policy is valid
+ */
+export function validateFreshness(freshness: unknown): string | null {
+  if (typeof freshness !== 'object' || freshness === null) {
+    return 'freshness must be an object with mode and/or max_age_hours';
+  }
+
+  const { mode, max_age_hours } = freshness as Partial<FreshnessPolicy>;
+
+  if (mode !== undefined && !FRESHNESS_MODES.includes(mode)) {
+    return `freshness.mode must be one of: ${FRESHNESS_MODES.join(', ')}`;
+  }
+
+  if (max_age_hours !== undefined && (typeof max_age_hours !== 'number' || !(max_age_hours >= 0))) {
+    return 'freshness.max_age_hours must be a number of at least 0';
+  }
+
+  return null;
+}
+
+/**
+ * The policy a source's videos are scraped under in its current run
+ */
+export function resolveFreshness(
+  source?: Pick<ScrapeSource, 'freshness' | 'force_rescrape'> | null
+): FreshnessPolicy {
+  const policy = { ...getGlobalFreshness(), ...source?.freshness };
+  return source?.force_rescrape ? { ...policy, mode: 'force' } : policy;
+}
+
+/**
+ * Whether a stored video is missing data a fresh scrape may fill in
+ */
+export function isIncompleteVideo(video: PersistedVideo): boolean {
+  return (
+    !video.transcript?.length ||
+    !video.duration ||
+    (video.thumbnail !== null && !video.thumbnail_storage_key)
+  );
+}
+
+/**
+ * Whether a video should be scraped under a policy
+ * Videos that were never stored, or whose media still needs archiving, always are
+ */
+export function shouldScrape(
+  existing: PersistedVideo | null,
+  policy: FreshnessPolicy,
+  archive_media: boolean = false
+): boolean {
+  if (!existing || (archive_media && !existing.media_storage_key)) return true;
+
+  switch (policy.mode) {
+    case 'force':
+      return true;
+    case 'incomplete':
+      return isIncompleteVideo(existing);
+    case 'stale': {
+      const hours_ago = (Date.now() - new Date(existing.updated_at).getTime()) / (1000 * 60 * 60);
+      return hours_ago >= policy.max_age_hours;
+    }
+  }
+}
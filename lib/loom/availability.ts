@@ -0,0 +1,67 @@
+import type { VideoAvailability } from '../types.js';
+import { createHeaders, createPageHeaders } from './utils.js';
+import { unlockVideo } from './password.js';
+
+// =============================================================================
+// AVAILABILITY - Tells deleted videos apart from ones we lost access to
+// =============================================================================
+
+type LoomAvailability = Exclude<VideoAvailability, 'removed_from_source'>;
+
+/**
+ * Map an HTTP status from Loom to an availability
+ * Returns null for statuses that don't say anything about the video (5xx, 429, ...)
+ */
+function availabilityFromStatus(status: number): LoomAvailability | null {
+  if (status >= 200 && status < 300) return 'available';
+  if (status === 404 || status === 410) return 'deleted';
+  if (status === 401 || status === 403) return 'access_revoked';
+  return null;
+}
+
+/**
+ * Check whether Loom still serves a video to us
+ * Asks the oEmbed endpoint first, then the share page when oEmbed is inconclusive
+ *
+ * @returns The availability, or null if Loom's answers were inconclusive (e.g. an outage)
+ */
+export async function checkVideoAvailability(
+  video_id: string,
+  cookies?: string,
+  password?: string
+): Promise<LoomAvailability | null> {
+  const page_cookies = password ? await unlockVideo(video_id, password, cookies) : cookies;
+
+  try {
+    const oembed_response = await fetch(
+      `https://www.loom.com/v1/oembed?url=https://www.loom.com/share/${video_id}`,
+      { headers: createHeaders(page_cookies) }
+    );
+
+    const availability = availabilityFromStatus(oembed_response.status);
+    if (availability === 'available' || availability === 'deleted') {
+      return availability;
+    }
+  } catch (error) {
+    console.log('[Availability] OEmbed check failed:', error);
+  }
+
+  // oEmbed refuses private videos even with access, so the share page decides
+  try {
+    const page_response = await fetch(`https://www.loom.com/share/${video_id}`, {
+      headers: createPageHeaders(page_cookies),
+      redirect: 'manual',
+    });
+
+    // Loom redirects to the login page when the session can't see the video
+    const location = page_response.headers.get('location') || '';
+    if (page_response.status >= 300 && page_response.status < 400) {
+      return /\/login|\/signup/.test(location) ? 'access_revoked' : null;
+    }
+
+    return availabilityFromStatus(page_response.status);
+  } catch (error) {
+    console.log('[Availability] Share page check failed:', error);
+    return null;
+  }
+}
@@ -23,13 +23,16 @@ interface FetchChaptersResponse {
 /**
  * Fetch video chapters from Loom's GraphQL API
  */
-export async function fetchChapters(video_id: string): Promise<Chapter[] | null> {
+export async function fetchChapters(
+  video_id: string,
+  password?: string
+): Promise<Chapter[] | null> {
   console.log(`[Chapters] Fetching for: ${video_id}`);
 
   const data = await graphqlClient<FetchChaptersResponse>({
     operationName: 'FetchChapters',
     query: GRAPHQL_QUERIES.FETCH_CHAPTERS,
-    variables: { videoId: video_id, password: null },
+    variables: { videoId: video_id, password: password ?? null },
   });
 
   if (!data?.fetchVideoChapters) {
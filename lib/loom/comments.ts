@@ -1,6 +1,8 @@
 import { graphqlClient } from './client.js';
 import { GRAPHQL_QUERIES } from './queries.js';
-import type { LoomComment, CommentReply } from '../types.js';
+import { buildAvatarUrl } from './utils.js';
+import type { LoomComment, CommentReply, CommentMention } from '../types.js';
+import * as emoji from 'node-emoji';
 
 // =============================================================================
 // GRAPHQL RESPONSE TYPES
@@ -26,7 +28,8 @@ interface GraphQLComment {
   anon_user_id: string | null;
   deletedAt: string | null;
   guid: string;
-  children_comments: GraphQLComment[];
+  children_comments?: GraphQLComment[];
+  extended_reaction?: string | null; // Replies only
 }
 
 interface FetchCommentsResponse {
@@ -41,54 +44,103 @@ interface FetchCommentsResponse {
 // HELPER FUNCTIONS
 // =============================================================================
 
-const LOOM_AVATAR_BASE_URL = 'https://cdn.loom.com/';
+// Mention markup returned by content(withMentionMarkups: true): @[Display Name](user_id)
+const MENTION_MARKUP_PATTERN = /@\[([^\]]+)\]\(([^)]+)\)/g;
 
-function buildAvatarUrl(avatar: Avatar | null): string | null {
-  if (!avatar?.thumb) return null;
-  return `${LOOM_AVATAR_BASE_URL}${avatar.thumb}`;
+/**
+ * Extract structured mentions from comment markup, de-duplicated by user ID
+ */
+function parseMentions(markup: string | null): CommentMention[] {
+  const mentions = new Map<string, CommentMention>();
+
+  for (const match of (markup || '').matchAll(MENTION_MARKUP_PATTERN)) {
+    const [, name, user_id] = match;
+    if (!mentions.has(user_id)) {
+      mentions.set(user_id, { user_id, name });
+    }
+  }
+
+  return [...mentions.values()];
 }
 
-function mapCommentReply(reply: GraphQLComment): CommentReply {
-  return {
-    id: reply.id,
-    author: reply.user_name || 'Anonymous',
-    content: reply.plainContent || reply.content || '',
-    video_timestamp: reply.time_stamp,
-    avatar_url: buildAvatarUrl(reply.avatar),
-    created_at: reply.createdAt,
-    edited: reply.edited || false,
-  };
+/**
+ * Plain text for a comment, falling back to the markup with mentions rendered as @Name
+ */
+function getPlainContent(comment: GraphQLComment): string {
+  if (comment.plainContent) return comment.plainContent;
+  return (comment.content || '').replace(MENTION_MARKUP_PATTERN, (_, name: string) => `@${name}`);
 }
 
-function mapComment(comment: GraphQLComment): LoomComment {
+/**
+ * Fields shared by comments and replies
+ * Deleted comments are kept as tombstones: identity and timing survive, content does not
+ */
+function mapCommentFields(comment: GraphQLComment): CommentReply {
+  const deleted = Boolean(comment.deletedAt);
+
   return {
     id: comment.id,
+    guid: comment.guid || null,
     author: comment.user_name || 'Anonymous',
-    content: comment.plainContent || comment.content || '',
+    user_id: comment.user_id !== null && comment.user_id !== undefined ? String(comment.user_id) : null,
+    anon_user_id: comment.anon_user_id || null,
+    content: deleted ? '' : getPlainContent(comment),
+    mentions: deleted ? [] : parseMentions(comment.content),
     video_timestamp: comment.time_stamp,
     avatar_url: buildAvatarUrl(comment.avatar),
     created_at: comment.createdAt,
     edited: comment.edited || false,
-    replies: (comment.children_comments || [])
-      .filter((reply) => !reply.deletedAt)
-      .map(mapCommentReply),
+    is_chat_message: comment.isChatMessage || false,
+    deleted_at: comment.deletedAt || null,
+    reaction: null,
   };
 }
 
+function mapCommentReply(reply: GraphQLComment): CommentReply {
+  const extended_reaction = reply.extended_reaction || null;
+
+  return {
+    ...mapCommentFields(reply),
+    reaction: extended_reaction ? emoji.get(extended_reaction) || extended_reaction : null,
+  };
+}
+
+function mapComment(comment: GraphQLComment): LoomComment {
+  const { reaction, ...fields } = mapCommentFields(comment);
+
+  return {
+    ...fields,
+    replies: (comment.children_comments || []).map(mapCommentReply),
+  };
+}
+
+/**
+ * Drop tombstones - comments and replies Loom reports as deleted
+ * Tombstones are only kept in the comments table, never on the video itself
+ */
+export function withoutDeletedComments(comments: LoomComment[]): LoomComment[] {
+  return comments
+    .filter((comment) => !comment.deleted_at)
+    .map((comment) => ({ ...comment, replies: comment.replies.filter((reply) => !reply.deleted_at) }));
+}
+
 // =============================================================================
 // COMMENTS FETCHER
 // =============================================================================
 
 /**
- * Fetch video comments from Loom's GraphQL API
+ * Fetch video comments from Loom's GraphQL API, tombstones included
  */
-export async function fetchVideoComments(video_id: string): Promise<LoomComment[] | null> {
+export async function fetchVideoComments(
+  video_id: string,
+  password?: string
+): Promise<LoomComment[] | null> {
   console.log(`[Comments] Fetching for: ${video_id}`);
 
   const data = await graphqlClient<FetchCommentsResponse>({
     operationName: 'fetchVideoComments',
     query: GRAPHQL_QUERIES.FETCH_COMMENTS,
-    variables: { id: video_id, password: null },
+    variables: { id: video_id, password: password ?? null },
   });
 
   if (!data?.video) {
@@ -102,8 +154,8 @@ export async function fetchVideoComments(video_id: string): Promise<LoomComment[
     return [];
   }
 
-  // Filter out deleted comments and map to our format
-  const comments = video_comments.filter((comment) => !comment.deletedAt).map(mapComment);
+  // Deleted comments are kept as tombstones (deleted_at set, content cleared)
+  const comments = video_comments.map(mapComment);
 
   console.log(`[Comments] Found ${comments.length} comments`);
   return comments;
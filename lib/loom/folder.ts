@@ -1,7 +1,14 @@
 import { GRAPHQL_QUERIES } from './queries.js';
 import { graphqlClientWithAuth } from './client.js';
-import { parseCookies } from './utils.js';
-import type { FolderVideo, FolderResult } from '../types.js';
+import {
+  parseCookies,
+  extractVideoId,
+  extractFolderId,
+  extractSpaceId,
+  isLibraryUrl,
+  isSharedWithMeUrl,
+} from './utils.js';
+import type { FolderVideo, JobType, LibraryListing, ListingState } from '../types.js';
 
 // =============================================================================
 // GRAPHQL RESPONSE TYPES
@@ -31,12 +38,34 @@ interface GetLoomsResponse {
   };
 }
 
+interface FolderEdge {
+  cursor: string;
+  node: {
+    id: string;
+    name: string;
+    parentFolderId: string | null;
+  };
+}
+
+interface GetFoldersResponse {
+  getFolders: {
+    __typename: string;
+    folders?: {
+      edges: FolderEdge[];
+      pageInfo: PageInfo;
+    };
+  };
+}
+
 // =============================================================================
 // CONSTANTS
 // =============================================================================
 
 const DEFAULT_PAGE_SIZE = 50; // Fetch 50 videos per request
-const MAX_VIDEOS = 500; // Safety limit to prevent infinite loops
+const MAX_FOLDER_PAGES = 20; // Child folder pages per folder
+
+export const DEFAULT_FOLDER_DEPTH = 5;
+export const MAX_FOLDER_DEPTH = 10;
 
 // =============================================================================
 // PAGINATION HELPER
@@ -50,14 +79,14 @@ interface FetchPageResult {
 }
 
 async function fetchVideosPage(
-  folder_id: string,
+  listing: LibraryListing,
   cookie_string: string,
   cursor: string | null
 ): Promise<FetchPageResult | null> {
   const variables = {
-    source: 'MINE',
-    sourceValue: folder_id,
-    folderId: folder_id,
+    source: listing.source,
+    sourceValue: listing.source_value,
+    folderId: listing.folder_id,
     sortType: 'RECENT',
     sortOrder: 'DESC',
     filters: [],
@@ -93,7 +122,7 @@ async function fetchVideosPage(
       videos: [],
       end_cursor: null,
       has_next_page: false,
-      error: 'No videos in response - folder may be empty or inaccessible',
+      error: 'No videos in response - listing may be empty or inaccessible',
     };
   }
 
@@ -112,72 +141,246 @@ async function fetchVideosPage(
   };
 }
 
+interface ChildFolder {
+  id: string;
+  name: string;
+}
+
+interface FetchFoldersPageResult {
+  folders: ChildFolder[];
+  end_cursor: string | null;
+  has_next_page: boolean;
+  error?: string;
+}
+
+async function fetchFoldersPage(
+  folder_id: string,
+  cookie_string: string,
+  cursor: string | null
+): Promise<FetchFoldersPageResult> {
+  const result = await graphqlClientWithAuth<GetFoldersResponse>(
+    GRAPHQL_QUERIES.GET_FOLDERS_FOR_LIBRARY,
+    'GetFoldersForLibrary',
+    { parentFolderId: folder_id, limit: DEFAULT_PAGE_SIZE, cursor },
+    cookie_string
+  );
+
+  const connection = result.data?.getFolders?.folders;
+
+  if (result.error || !connection) {
+    return {
+      folders: [],
+      end_cursor: null,
+      has_next_page: false,
+      error: result.error || 'No folders in response',
+    };
+  }
+
+  return {
+    folders: connection.edges.map((edge) => ({ id: edge.node.id, name: edge.node.name })),
+    end_cursor: connection.pageInfo.endCursor,
+    has_next_page: connection.pageInfo.hasNextPage,
+  };
+}
+
+/**
+ * Fetch the direct child folders of a folder
+ */
+async function fetchChildFolders(
+  folder_id: string,
+  cookie_string: string
+): Promise<{ folders: ChildFolder[]; error?: string }> {
+  const folders: ChildFolder[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < MAX_FOLDER_PAGES; page++) {
+    const page_result: FetchFoldersPageResult = await fetchFoldersPage(folder_id, cookie_string, cursor);
+
+    if (page_result.error) {
+      return { folders, error: page_result.error };
+    }
+
+    folders.push(...page_result.folders);
+
+    if (!page_result.has_next_page) break;
+    cursor = page_result.end_cursor;
+  }
+
+  return { folders };
+}
+
 // =============================================================================
-// FOLDER VIDEO LISTING
+// RESUMABLE LISTING
 // =============================================================================
 
 /**
- * Fetch all videos from a Loom folder using authenticated GraphQL with pagination
- *
- * IMPORTANT: This function only lists video IDs in the folder.
- * Each video should be scraped independently via the worker queue
- * to avoid timeouts.
+ * Listing for a single folder of the personal library
  */
-export async function fetchFolderVideos(
-  folder_id: string,
-  cookies: string | undefined
-): Promise<FolderResult> {
-  console.log(`[Folder] Fetching videos for folder: ${folder_id}`);
+export function folderListing(folder_id: string): LibraryListing {
+  return { source: 'MINE', source_value: folder_id, folder_id };
+}
+
+/**
+ * Resolve a bulk source URL to the library listing the folder worker pages through
+ */
+export function buildListing(type: JobType, url: string): LibraryListing | null {
+  switch (type) {
+    case 'folder': {
+      const folder_id = extractFolderId(url);
+      return folder_id ? folderListing(folder_id) : null;
+    }
+    case 'library':
+      return isLibraryUrl(url) ? { source: 'MINE', source_value: null, folder_id: null } : null;
+    case 'shared':
+      return isSharedWithMeUrl(url) ? { source: 'SHARED', source_value: null, folder_id: null } : null;
+    case 'space': {
+      const space_id = extractSpaceId(url);
+      return space_id ? { source: 'SPACE', source_value: space_id, folder_id: null } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Guess the source type of a Loom URL
+ * Space URLs that end in a 32-character folder ID are treated as folders
+ */
+export function classifyUrl(url: string): JobType | null {
+  if (extractVideoId(url)) return 'video';
+  if (isLibraryUrl(url)) return 'library';
+  if (isSharedWithMeUrl(url)) return 'shared';
+  if (extractFolderId(url)) return 'folder';
+  if (extractSpaceId(url)) return 'space';
+  return null;
+}
+
+function describeListing(listing: LibraryListing): string {
+  return listing.source_value ? `${listing.source} ${listing.source_value}` : listing.source;
+}
+
+/**
+ * Initial state for paging through a listing
+ * Recursive listings (folders only) also queue sub-folders up to max_depth levels down
+ */
+export function createListingState(
+  listing: LibraryListing,
+  recursive: boolean = false,
+  max_depth: number = DEFAULT_FOLDER_DEPTH
+): ListingState {
+  const is_recursive = recursive && listing.folder_id !== null;
+
+  return {
+    pending: [{ listing, path: [], depth: 0 }],
+    cursor: null,
+    visited: listing.folder_id ? [listing.folder_id] : [],
+    max_depth: is_recursive ? Math.min(Math.max(max_depth, 0), MAX_FOLDER_DEPTH) : null,
+    pages_fetched: 0,
+  };
+}
+
+export interface ListingPageResult {
+  success: boolean;
+  videos: FolderVideo[];
+  state: ListingState;
+  done: boolean; // Nothing left to page through
+  error?: string; // Fatal: the very first page failed
+  partial_error?: string; // A later page or sub-folder failed and was skipped
+}
 
-  // Parse cookies to get cookie string
+/**
+ * Fetch the next page of a listing and return the advanced state
+ * The state (including Loom's endCursor) is plain JSON so it can be stored between invocations.
+ * A failure on the first page is fatal; later failures skip the rest of that listing
+ * and are reported as partial errors so truncation is never silent.
+ */
+export async function fetchNextListingPage(
+  state: ListingState,
+  cookies: string | undefined
+): Promise<ListingPageResult> {
   const cookie_string = parseCookies(cookies);
 
   if (!cookie_string) {
     return {
       success: false,
-      error: 'Cookies are required to access folder contents. Please provide valid session cookies.',
+      videos: [],
+      state,
+      done: false,
+      error: 'Cookies are required to access library contents. Please provide valid session cookies.',
     };
   }
 
-  const all_videos: FolderVideo[] = [];
-  let cursor: string | null = null;
-  let has_next_page = true;
-  let page_count = 0;
-  let last_error: string | undefined;
-
-  // Paginate through all videos
-  while (has_next_page && all_videos.length < MAX_VIDEOS) {
-    page_count++;
-    console.log(`[Folder] Fetching page ${page_count}, cursor: ${cursor || 'initial'}`);
-
-    const page_result: FetchPageResult | null = await fetchVideosPage(folder_id, cookie_string, cursor);
-
-    if (!page_result || page_result.error) {
-      last_error = page_result?.error || 'Unknown error';
-
-      // If first page fails, return error with details
-      if (page_count === 1) {
-        return {
-          success: false,
-          error: `Failed to fetch folder videos: ${last_error}`,
-        };
-      }
-      // If subsequent page fails, return what we have
-      console.log(`[Folder] Error on page ${page_count}: ${last_error}, returning partial results`);
-      break;
+  const [current, ...rest] = state.pending;
+  if (!current) {
+    return { success: true, videos: [], state, done: true };
+  }
+
+  const folder_path = current.path.join(' / ');
+  const label = folder_path || describeListing(current.listing);
+  console.log(`[Folder] Fetching ${label}, cursor: ${state.cursor || 'initial'}`);
+
+  const page = await fetchVideosPage(current.listing, cookie_string, state.cursor);
+  let videos: FolderVideo[] = [];
+  let partial_error: string | undefined;
+
+  if (!page || page.error) {
+    const page_error = page?.error || 'Unknown error';
+
+    if (state.pages_fetched === 0) {
+      return { success: false, videos: [], state, done: false, error: `Failed to fetch videos: ${page_error}` };
     }
 
-    all_videos.push(...page_result.videos);
-    cursor = page_result.end_cursor;
-    has_next_page = page_result.has_next_page;
+    // Skip the rest of this listing, but still descend into its sub-folders
+    partial_error = state.cursor
+      ? `${label}: listing ended early after cursor ${state.cursor}: ${page_error}`
+      : `${label}: ${page_error}`;
+    console.log(`[Folder] ${partial_error}`);
+  } else {
+    videos = page.videos.map((video) =>
+      state.max_depth === null ? video : { ...video, folder_id: current.listing.folder_id ?? undefined, folder_path }
+    );
+
+    // More pages in this listing (guarding against a cursor that doesn't advance)
+    if (page.has_next_page && page.end_cursor && page.end_cursor !== state.cursor) {
+      return {
+        success: true,
+        videos,
+        state: { ...state, cursor: page.end_cursor, pages_fetched: state.pages_fetched + 1 },
+        done: false,
+      };
+    }
   }
 
-  console.log(`[Folder] Total videos found: ${all_videos.length}`);
+  // Listing finished - queue sub-folders for recursive listings
+  const pending = [...rest];
+  const visited = [...state.visited];
+
+  if (state.max_depth !== null && current.listing.folder_id && current.depth < state.max_depth) {
+    const children = await fetchChildFolders(current.listing.folder_id, cookie_string);
+    if (children.error) {
+      const folders_error = `${folder_path || '(root)'}: failed to list sub-folders: ${children.error}`;
+      partial_error = partial_error ? `${partial_error}; ${folders_error}` : folders_error;
+    }
+
+    for (const child of children.folders) {
+      if (visited.includes(child.id)) {
+        console.log(`[Folder] Skipping already visited folder: ${child.id}`);
+        continue;
+      }
+      visited.push(child.id);
+      pending.push({
+        listing: folderListing(child.id),
+        path: [...current.path, child.name],
+        depth: current.depth + 1,
+      });
+    }
+  }
 
   return {
     success: true,
-    folder_id,
-    videos: all_videos,
-    total_count: all_videos.length,
+    videos,
+    state: { ...state, pending, visited, cursor: null, pages_fetched: state.pages_fetched + 1 },
+    done: pending.length === 0,
+    partial_error,
   };
 }
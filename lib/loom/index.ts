@@ -8,14 +8,35 @@ export { scrapeVideo } from './scraper.js';
 // Individual services
 export { fetchVideoMetadata } from './video.js';
 export { fetchChapters } from './chapters.js';
-export { fetchVideoComments } from './comments.js';
+export { fetchVideoComments, withoutDeletedComments } from './comments.js';
 export { fetchVideoReactions } from './reactions.js';
-export { fetchTranscriptFromCdn } from './transcript.js';
+export { fetchTranscriptFromCdn, fetchTranscriptTracks } from './transcript.js';
 export { fetchVideoTags } from './tags.js';
-export { fetchFolderVideos } from './folder.js';
+export {
+  fetchNextListingPage,
+  createListingState,
+  folderListing,
+  buildListing,
+  classifyUrl,
+  DEFAULT_FOLDER_DEPTH,
+  MAX_FOLDER_DEPTH,
+} from './folder.js';
+export { unlockVideo } from './password.js';
+export { archiveVideoMedia, findMediaSource } from './media.js';
+export { archiveThumbnails } from './thumbnails.js';
+export { checkVideoAvailability } from './availability.js';
 
 // Utilities
-export { extractVideoId, extractFolderId, parseCookies, createHeaders } from './utils.js';
+export {
+  extractVideoId,
+  extractFolderId,
+  extractSpaceId,
+  isLibraryUrl,
+  isSharedWithMeUrl,
+  buildShareUrl,
+  parseCookies,
+  createHeaders,
+} from './utils.js';
 
 // GraphQL client
 export { graphqlClient, graphqlClientWithAuth } from './client.js';
@@ -0,0 +1,244 @@
+import { createHash } from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type { StorageBackend } from '../storage/index.js';
+import type { MediaArchive } from '../types.js';
+import { createHeaders, createPageHeaders } from './utils.js';
+import { unlockVideo } from './password.js';
+
+// =============================================================================
+// MEDIA ARCHIVAL - Downloads the video file into object storage
+// =============================================================================
+
+interface MediaSource {
+  url: string;
+  type: 'mp4' | 'hls';
+}
+
+const MEDIA_URL_PATTERN = /https:\/\/[^"'\s\\]+\.(?:mp4|m3u8)(?:\?[^"'\s\\]*)?/g;
+
+function detectMediaType(url: string): MediaSource['type'] {
+  return new URL(url).pathname.endsWith('.m3u8') ? 'hls' : 'mp4';
+}
+
+// =============================================================================
+// SOURCE DISCOVERY
+// =============================================================================
+
+/**
+ * Find a downloadable MP4 or HLS source for a video
+ * Tries Loom's transcoded-url endpoint first, then URLs embedded in the share page
+ */
+export async function findMediaSource(
+  video_id: string,
+  cookies?: string
+): Promise<MediaSource | null> {
+  try {
+    const response = await fetch(
+      `https://www.loom.com/api/campaigns/sessions/${video_id}/transcoded-url`,
+      {
+        method: 'POST',
+        headers: {
+          ...createHeaders(cookies),
+          Origin: 'https://www.loom.com',
+          Referer: `https://www.loom.com/share/${video_id}`,
+        },
+        body: JSON.stringify({}),
+      }
+    );
+
+    if (response.ok) {
+      const data = (await response.json()) as { url?: string };
+      if (data.url) {
+        return { url: data.url, type: detectMediaType(data.url) };
+      }
+    } else {
+      console.log(`[Media] transcoded-url failed: ${response.status}`);
+    }
+  } catch (error) {
+    console.log('[Media] transcoded-url error:', error);
+  }
+
+  // Fallback: Look for media URLs on the share page, preferring MP4
+  try {
+    const page_response = await fetch(`https://www.loom.com/share/${video_id}`, {
+      headers: createPageHeaders(cookies),
+    });
+
+    if (page_response.ok) {
+      const html = await page_response.text();
+      const urls = [...html.matchAll(MEDIA_URL_PATTERN)].map((match) => match[0]);
+      const url = urls.find((u) => detectMediaType(u) === 'mp4') || urls[0];
+
+      if (url) {
+        return { url, type: detectMediaType(url) };
+      }
+    }
+  } catch (error) {
+    console.log('[Media] Page fetch failed:', error);
+  }
+
+  return null;
+}
+
+// =============================================================================
+// STREAMING
+// =============================================================================
+
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url, { headers: createHeaders() });
+  if (!response.ok || !response.body) {
+    throw new Error(`Media fetch failed: ${response.status} ${url}`);
+  }
+  return response;
+}
+
+/**
+ * Resolve a playlist entry against the playlist URL
+ * Signed query params from the playlist are carried over when the entry has none
+ */
+function resolvePlaylistUrl(entry: string, playlist_url: string): string {
+  const resolved = new URL(entry, playlist_url);
+  if (!resolved.search) {
+    resolved.search = new URL(playlist_url).search;
+  }
+  return resolved.toString();
+}
+
+/**
+ * Read an HLS playlist, following the highest-bandwidth variant of a master playlist
+ */
+async function readMediaPlaylist(
+  playlist_url: string,
+  depth = 0
+): Promise<{ init: string | null; segments: string[] }> {
+  const text = await (await fetchOk(playlist_url)).text();
+  const lines = text.split('\n').map((line) => line.trim());
+
+  // Master playlist: pick the best variant
+  if (lines.some((line) => line.startsWith('#EXT-X-STREAM-INF')) && depth < 2) {
+    let best_url: string | null = null;
+    let best_bandwidth = -1;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('#EXT-X-STREAM-INF')) continue;
+      const bandwidth = Number(lines[i].match(/BANDWIDTH=(\d+)/)?.[1] || 0);
+      const url = lines.slice(i + 1).find((next) => next && !next.startsWith('#'));
+      if (url && bandwidth > best_bandwidth) {
+        best_url = url;
+        best_bandwidth = bandwidth;
+      }
+    }
+
+    if (!best_url) throw new Error('HLS master playlist has no variants');
+    return readMediaPlaylist(resolvePlaylistUrl(best_url, playlist_url), depth + 1);
+  }
+
+  const map_uri = lines.find((line) => line.startsWith('#EXT-X-MAP'))?.match(/URI="([^"]+)"/)?.[1];
+
+  return {
+    init: map_uri ? resolvePlaylistUrl(map_uri, playlist_url) : null,
+    segments: lines
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => resolvePlaylistUrl(line, playlist_url)),
+  };
+}
+
+/**
+ * Concatenate HLS segments into a single stream
+ */
+async function* streamHlsSegments(urls: string[]): AsyncGenerator<Buffer> {
+  for (const url of urls) {
+    const response = await fetchOk(url);
+    yield Buffer.from(await response.arrayBuffer());
+  }
+}
+
+/**
+ * Open a media source as a Node stream
+ * fMP4 HLS streams (with an init segment) are stored as MP4, others as MPEG-TS
+ */
+async function openMediaStream(
+  source: MediaSource
+): Promise<{ stream: Readable; content_type: string; extension: string }> {
+  if (source.type === 'mp4') {
+    const response = await fetchOk(source.url);
+    return {
+      stream: Readable.fromWeb(response.body as WebReadableStream),
+      content_type: 'video/mp4',
+      extension: 'mp4',
+    };
+  }
+
+  const playlist = await readMediaPlaylist(source.url);
+  const urls = playlist.init ? [playlist.init, ...playlist.segments] : playlist.segments;
+
+  return {
+    stream: Readable.from(streamHlsSegments(urls)),
+    content_type: playlist.init ? 'video/mp4' : 'video/mp2t',
+    extension: playlist.init ? 'mp4' : 'ts',
+  };
+}
+
+// =============================================================================
+// ARCHIVER
+// =============================================================================
+
+/**
+ * Stream a video's media file into object storage
+ * Computes a SHA-256 checksum and size while streaming
+ *
+ * @returns Archive details, or null if no downloadable source was found
+ */
+export async function archiveVideoMedia(
+  video_id: string,
+  storage: StorageBackend,
+  cookies?: string,
+  password?: string
+): Promise<MediaArchive | null> {
+  console.log(`[Media] Archiving: ${video_id}`);
+
+  const page_cookies = password ? await unlockVideo(video_id, password, cookies) : cookies;
+
+  const source = await findMediaSource(video_id, page_cookies);
+  if (!source) {
+    console.log(`[Media] No downloadable source for: ${video_id}`);
+    return null;
+  }
+
+  const { stream, content_type, extension } = await openMediaStream(source);
+  const storage_key = `media/${video_id}.${extension}`;
+
+  const hash = createHash('sha256');
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  // pipeline destroys the meter on source errors, which fails the upload
+  const piping = pipeline(stream, meter);
+  // A failed upload stops reading the meter, so the download is torn down with it
+  const upload = storage.put(storage_key, meter, content_type).catch((error: unknown) => {
+    stream.destroy();
+    meter.destroy();
+    throw error;
+  });
+  await Promise.all([upload, piping]);
+
+  const archive: MediaArchive = {
+    storage_backend: storage.name,
+    storage_key,
+    checksum: hash.digest('hex'),
+    size,
+    content_type,
+    source_type: source.type,
+  };
+
+  console.log(`[Media] Archived ${video_id}: ${size} bytes -> ${storage.name}:${storage_key}`);
+  return archive;
+}
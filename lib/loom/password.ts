@@ -0,0 +1,53 @@
+import { createHeaders, parseCookies } from './utils.js';
+
+// =============================================================================
+// PASSWORD UNLOCK - Unlocks password-protected share pages
+// =============================================================================
+
+/**
+ * Submit a video password to Loom and return cookies that unlock the share page
+ *
+ * Loom answers a correct password with session cookies that grant access to
+ * the share page and its signed CDN URLs. These are merged into any cookies
+ * the caller already has so authenticated requests keep working.
+ *
+ * @returns Cookie string for page/CDN requests, or the original cookies if unlocking failed
+ */
+export async function unlockVideo(
+  video_id: string,
+  password: string,
+  cookies?: string
+): Promise<string | undefined> {
+  console.log(`[Password] Unlocking: ${video_id}`);
+
+  try {
+    const response = await fetch(`https://www.loom.com/v1/videos/${video_id}/password`, {
+      method: 'POST',
+      headers: {
+        ...createHeaders(cookies),
+        Origin: 'https://www.loom.com',
+        Referer: `https://www.loom.com/share/${video_id}`,
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!response.ok) {
+      console.log(`[Password] Unlock failed: ${response.status}`);
+      return cookies;
+    }
+
+    const unlock_cookies = response.headers
+      .getSetCookie()
+      .map((header) => header.split(';')[0].trim())
+      .filter(Boolean);
+
+    if (unlock_cookies.length === 0) {
+      return cookies;
+    }
+
+    return [parseCookies(cookies), ...unlock_cookies].filter(Boolean).join('; ');
+  } catch (error) {
+    console.error('[Password] Error:', error);
+    return cookies;
+  }
+}
@@ -14,6 +14,11 @@ export const GRAPHQL_QUERIES = {
             id
             first_name
             last_name
+            avatar {
+              name
+              thumb
+              __typename
+            }
             __typename
           }
           createdAt
@@ -119,6 +124,7 @@ export const GRAPHQL_QUERIES = {
       anon_user_id
       createdAt
       isChatMessage
+      deletedAt
       comment_post_idv2
       extended_reaction
       guid
@@ -222,6 +228,39 @@ export const GRAPHQL_QUERIES = {
     }
   `,
 
+  /**
+   * Fetches the direct child folders of a folder with pagination support
+   * Requires authentication (cookies)
+   */
+  GET_FOLDERS_FOR_LIBRARY: `
+    query GetFoldersForLibrary($parentFolderId: String, $limit: Int!, $cursor: String) {
+      getFolders {
+        __typename
+        ... on GetFoldersPayload {
+          folders(first: $limit, after: $cursor, parentFolderId: $parentFolderId) {
+            edges {
+              cursor
+              node {
+                id
+                name
+                parentFolderId
+                __typename
+              }
+              __typename
+            }
+            pageInfo {
+              endCursor
+              hasNextPage
+              __typename
+            }
+            __typename
+          }
+          __typename
+        }
+      }
+    }
+  `,
+
   /**
    * Fetches tags assigned to a video
    * Requires authentication (cookies)
@@ -66,13 +66,16 @@ function mapReaction(graphql_reaction: GraphQLReaction): Reaction {
 /**
  * Fetch video reactions from Loom's GraphQL API
  */
-export async function fetchVideoReactions(video_id: string): Promise<Reaction[] | null> {
+export async function fetchVideoReactions(
+  video_id: string,
+  password?: string
+): Promise<Reaction[] | null> {
   console.log(`[Reactions] Fetching for: ${video_id}`);
 
   const data = await graphqlClient<FetchReactionsResponse>({
     operationName: 'fetchVideoReactions',
     query: GRAPHQL_QUERIES.FETCH_REACTIONS,
-    variables: { id: video_id, password: null },
+    variables: { id: video_id, password: password ?? null },
   });
 
   if (!data?.videoReactionsForVideo) {
@@ -1,11 +1,12 @@
-import type { LoomVideo, TranscriptSegment } from '../types.js';
+import type { ScrapedVideo } from '../types.js';
 import { createHeaders } from './utils.js';
 import { fetchVideoMetadata } from './video.js';
 import { fetchChapters } from './chapters.js';
-import { fetchVideoComments } from './comments.js';
+import { fetchVideoComments, withoutDeletedComments } from './comments.js';
 import { fetchVideoReactions } from './reactions.js';
-import { fetchTranscriptFromCdn } from './transcript.js';
+import { fetchTranscriptTracks } from './transcript.js';
 import { fetchVideoTags } from './tags.js';
+import { unlockVideo } from './password.js';
 
 // =============================================================================
 // MAIN VIDEO SCRAPER
@@ -19,29 +20,38 @@ import { fetchVideoTags } from './tags.js';
  * - OEmbed API for basic info
  * - Video page HTML for title, description, thumbnail
  * - GraphQL API for metadata, chapters, comments, reactions
- * - CDN for transcript
+ * - CDN for transcripts and captions in every available language
  *
  * @param video_id - The Loom video ID to scrape
  * @param cookies - Optional authentication cookies for private videos
+ * @param password - Optional password for password-protected videos
  * @returns Complete video data or null if scraping failed
  */
-export async function scrapeVideo(video_id: string, cookies?: string): Promise<LoomVideo | null> {
+export async function scrapeVideo(
+  video_id: string,
+  cookies?: string,
+  password?: string
+): Promise<ScrapedVideo | null> {
   console.log(`[Scraper] Starting scrape for video: ${video_id}`);
 
-  const headers = createHeaders(cookies);
-
   try {
+    // Step 0: Unlock the share page for password-protected videos
+    const page_cookies = password ? await unlockVideo(video_id, password, cookies) : cookies;
+    const headers = createHeaders(page_cookies);
+
     // Step 1: Fetch basic info from OEmbed (public videos)
     let title = 'Untitled Video';
     let thumbnail: string | null = null;
     let owner_name: string | null = null;
     let duration = 0;
+    let reachable = false; // Whether oEmbed or the share page answered at all
 
     try {
       const oembed_url = `https://www.loom.com/v1/oembed?url=https://www.loom.com/share/${video_id}`;
       const oembed_response = await fetch(oembed_url, { headers });
 
       if (oembed_response.ok) {
+        reachable = true;
         const oembed_data = (await oembed_response.json()) as {
           title?: string;
           thumbnail_url?: string;
@@ -59,12 +69,14 @@ export async function scrapeVideo(video_id: string, cookies?: string): Promise<L
 
     // Step 2: Fetch video page for additional data
     let description: string | null = null;
+    let animated_thumbnail: string | null = null;
 
     try {
       const page_url = `https://www.loom.com/share/${video_id}`;
       const page_response = await fetch(page_url, { headers });
 
       if (page_response.ok) {
+        reachable = true;
         const html = await page_response.text();
 
         // Extract JSON data from the page
@@ -82,6 +94,8 @@ export async function scrapeVideo(video_id: string, cookies?: string): Promise<L
               description = video_data.description || null;
               duration = video_data.duration || duration;
               thumbnail = video_data.thumbnailUrl || video_data.thumbnail_url || thumbnail;
+              animated_thumbnail =
+                video_data.animatedThumbnailUrl || video_data.animated_thumbnail_url || null;
             }
           } catch {
             console.log('[Scraper] Could not parse NEXT_DATA JSON');
@@ -115,6 +129,16 @@ export async function scrapeVideo(video_id: string, cookies?: string): Promise<L
             thumbnail = og_image_match[1];
           }
         }
+
+        // Animated preview GIF
+        if (!animated_thumbnail) {
+          const gif_match = html.match(
+            /https:\/\/cdn\.loom\.com\/sessions\/thumbnails\/[^"'\s\\]+\.gif(?:\?[^"'\s\\]*)?/
+          );
+          if (gif_match) {
+            animated_thumbnail = gif_match[0];
+          }
+        }
       }
     } catch (e) {
       console.log('[Scraper] Page fetch failed, continuing with available data...');
@@ -122,17 +146,24 @@ export async function scrapeVideo(video_id: string, cookies?: string): Promise<L
 
     // Step 3: Fetch additional data in parallel for better performance
     // This is safe to do in parallel as these are independent API calls
-    const [transcript_result, video_metadata, chapters, comments, reactions, tags] =
+    const [transcript_tracks, video_metadata, chapters, comments, reactions, tags] =
       await Promise.all([
-        fetchTranscriptFromCdn(video_id, cookies),
-        fetchVideoMetadata(video_id),
-        fetchChapters(video_id),
-        fetchVideoComments(video_id),
-        fetchVideoReactions(video_id),
-        fetchVideoTags(video_id, cookies),
+        fetchTranscriptTracks(video_id, page_cookies),
+        fetchVideoMetadata(video_id, password),
+        fetchChapters(video_id, password),
+        fetchVideoComments(video_id, password),
+        fetchVideoReactions(video_id, password),
+        fetchVideoTags(video_id, page_cookies),
       ]);
 
-    const transcript: TranscriptSegment[] | null = transcript_result;
+    // Nothing answered - the video is gone or we lost access, so don't save an empty shell
+    if (!reachable && !video_metadata) {
+      console.log(`[Scraper] Video not accessible: ${video_id}`);
+      return null;
+    }
+
+    // The original-language track is the primary transcript
+    const primary_track = transcript_tracks[0] || null;
 
     // Step 4: Merge GraphQL data with page data
     const created_at = video_metadata?.created_at || new Date().toISOString();
@@ -147,20 +178,27 @@ export async function scrapeVideo(video_id: string, cookies?: string): Promise<L
     }
 
     // Step 5: Build final video object
-    const video_result: LoomVideo = {
+    const video_result: ScrapedVideo = {
       id: video_id,
       title,
       duration,
       thumbnail,
+      animated_thumbnail,
       description,
       reactions: reactions || [],
-      comments: comments || [],
-      transcript,
+      comments: withoutDeletedComments(comments || []),
+      all_comments: comments,
+      all_reactions: reactions,
+      transcript: primary_track?.segments ?? null,
+      transcript_language: primary_track?.language ?? null,
+      transcript_languages: [...new Set(transcript_tracks.map((track) => track.language))],
+      transcripts: transcript_tracks,
       chapters,
       tags: tags || [],
       created_at,
+      owner_id: video_metadata?.owner_id || null,
       owner_name: owner_name || null,
-      owner_avatar_url: null,
+      owner_avatar_url: video_metadata?.owner_avatar_url || null,
     };
 
     console.log(`[Scraper] Successfully scraped video: ${video_id} - "${title}"`);
@@ -0,0 +1,71 @@
+import { Readable } from 'node:stream';
+import type { StorageBackend } from '../storage/index.js';
+import type { LoomVideo, StoredImage, ThumbnailArchive } from '../types.js';
+
+// =============================================================================
+// THUMBNAIL ARCHIVAL - Copies thumbnails off Loom's expiring signed CDN URLs
+// =============================================================================
+
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/**
+ * Download one image and store it under thumbnails/<name>.<ext>
+ */
+async function storeImage(
+  url: string,
+  name: string,
+  storage: StorageBackend
+): Promise<StoredImage | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'image/*', 'User-Agent': DEFAULT_USER_AGENT },
+    });
+
+    if (!response.ok) {
+      console.log(`[Thumbnails] Fetch failed: ${response.status}`);
+      return null;
+    }
+
+    const content_type = (response.headers.get('content-type') || 'image/jpeg').split(';')[0].trim();
+    if (!content_type.startsWith('image/')) {
+      console.log(`[Thumbnails] Not an image: ${content_type}`);
+      return null;
+    }
+
+    const storage_key = `thumbnails/${name}.${IMAGE_EXTENSIONS[content_type] || 'img'}`;
+    const body = Buffer.from(await response.arrayBuffer());
+    await storage.put(storage_key, Readable.from([body]), content_type);
+
+    return { storage_key, content_type };
+  } catch (error) {
+    console.error('[Thumbnails] Error:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a video's thumbnail and animated preview GIF
+ * Each image is stored independently; a failure leaves that entry null
+ */
+export async function archiveThumbnails(
+  video: LoomVideo,
+  storage: StorageBackend
+): Promise<ThumbnailArchive> {
+  const [thumbnail, animated_thumbnail] = await Promise.all([
+    video.thumbnail ? storeImage(video.thumbnail, video.id, storage) : null,
+    video.animated_thumbnail ? storeImage(video.animated_thumbnail, `${video.id}-animated`, storage) : null,
+  ]);
+
+  console.log(
+    `[Thumbnails] Stored for ${video.id}: thumbnail=${!!thumbnail}, animated=${!!animated_thumbnail}`
+  );
+  return { thumbnail, animated_thumbnail };
+}
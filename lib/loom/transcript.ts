@@ -1,22 +1,43 @@
-import type { TranscriptSegment } from '../types.js';
+import type { TranscriptSegment, TranscriptWord, TranscriptTrack } from '../types.js';
 import { parseCookies } from './utils.js';
+import { unlockVideo } from './password.js';
 
 // =============================================================================
-// TRANSCRIPT FETCHER - Fetches transcript from Loom CDN
+// TRANSCRIPT FETCHER - Fetches transcripts and captions from Loom CDN
 // =============================================================================
 
 const DEFAULT_USER_AGENT =
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
+// Language code used when the page data doesn't say which language a track is in
+const UNKNOWN_LANGUAGE = 'und';
+
+const TRANSCRIPT_URL_PATTERN = /https:\/\/cdn\.loom\.com\/mediametadata\/(?:transcription|captions)\/[^"'\s\\]+/g;
+
+interface TranscriptSource {
+  url: string;
+  language: string;
+  kind: TranscriptTrack['kind'];
+}
+
 /**
- * Fetch transcript from CDN using signed URL from page data
+ * Fetch every transcript and caption track available for a video
+ * Languages are discovered from the share page's __NEXT_DATA__
+ * Pass a password to unlock password-protected share pages first
+ *
+ * @returns Tracks with the original-language transcript first, or an empty array
  */
-export async function fetchTranscriptFromCdn(
+export async function fetchTranscriptTracks(
   video_id: string,
-  cookies?: string
-): Promise<TranscriptSegment[] | null> {
+  cookies?: string,
+  password?: string
+): Promise<TranscriptTrack[]> {
   console.log(`[Transcript] Fetching for: ${video_id}`);
 
+  if (password) {
+    cookies = await unlockVideo(video_id, password, cookies);
+  }
+
   const headers: Record<string, string> = {
     Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
     'User-Agent': DEFAULT_USER_AGENT,
@@ -28,117 +49,261 @@ export async function fetchTranscriptFromCdn(
   }
 
   try {
-    // Fetch the video page to get the signed CDN URL
+    // Fetch the video page to get the signed CDN URLs
     const page_url = `https://www.loom.com/share/${video_id}`;
     const page_response = await fetch(page_url, { headers });
 
     if (!page_response.ok) {
       console.log(`[Transcript] Page fetch failed: ${page_response.status}`);
-      return null;
+      return [];
     }
 
     const html = await page_response.text();
+    const sources = new Map<string, TranscriptSource>();
 
-    // Look for the CDN transcript URL in __NEXT_DATA__
+    // Look for CDN transcript/caption URLs in __NEXT_DATA__
     const next_data_match = html.match(/<script[^>]*id="__NEXT_DATA__"[^>]*>([^<]+)<\/script>/);
 
     if (next_data_match) {
       try {
         const next_data = JSON.parse(next_data_match[1]);
-        const transcript_url = findTranscriptUrl(next_data);
-
-        if (transcript_url) {
-          console.log(`[Transcript] Found CDN URL`);
-
-          // Fetch the transcript JSON from CDN
-          const transcript_response = await fetch(transcript_url, {
-            headers: {
-              Accept: 'application/json',
-              'User-Agent': DEFAULT_USER_AGENT,
-            },
-          });
-
-          if (transcript_response.ok) {
-            const transcript_data = await transcript_response.json();
-            return parseTranscriptData(transcript_data);
-          } else {
-            console.log(`[Transcript] CDN fetch failed: ${transcript_response.status}`);
-          }
-        }
+        findTranscriptSources(next_data, sources);
       } catch (e) {
         console.log('[Transcript] Error parsing NEXT_DATA:', e);
       }
     }
 
-    // Fallback: Look for transcript URL directly in HTML
-    const cdn_url_match = html.match(
-      /https:\/\/cdn\.loom\.com\/mediametadata\/transcription\/[^"'\s]+/
-    );
-    if (cdn_url_match) {
-      console.log('[Transcript] Found CDN URL in HTML fallback');
-      const transcript_response = await fetch(cdn_url_match[0], {
-        headers: { Accept: 'application/json' },
+    // Fallback: Look for transcript URLs directly in HTML
+    if (sources.size === 0) {
+      for (const match of html.matchAll(TRANSCRIPT_URL_PATTERN)) {
+        addSource(sources, match[0], null);
+      }
+      if (sources.size > 0) {
+        console.log('[Transcript] Found CDN URLs in HTML fallback');
+      }
+    }
+
+    if (sources.size === 0) {
+      console.log('[Transcript] No transcript found');
+      return [];
+    }
+
+    console.log(`[Transcript] Found ${sources.size} CDN URLs`);
+
+    const tracks: TranscriptTrack[] = [];
+    for (const source of sources.values()) {
+      const segments = await fetchTrackSegments(source.url);
+      if (!segments) continue;
+
+      // Skip duplicate language/kind pairs (e.g. the same track under two keys)
+      if (tracks.some((t) => t.language === source.language && t.kind === source.kind)) continue;
+
+      tracks.push({
+        language: source.language,
+        kind: source.kind,
+        is_original: false,
+        segments,
       });
+    }
 
-      if (transcript_response.ok) {
-        const transcript_data = await transcript_response.json();
-        return parseTranscriptData(transcript_data);
-      }
+    // The first transcription track found is the recording's original language
+    const original = tracks.find((t) => t.kind === 'transcript') || tracks[0];
+    if (original) {
+      original.is_original = true;
+      tracks.splice(tracks.indexOf(original), 1);
+      tracks.unshift(original);
     }
 
-    console.log('[Transcript] No transcript found');
-    return null;
+    console.log(`[Transcript] Languages: ${tracks.map((t) => `${t.language} (${t.kind})`).join(', ')}`);
+    return tracks;
   } catch (error) {
     console.error('[Transcript] Error:', error);
-    return null;
+    return [];
   }
 }
 
+/**
+ * Fetch the original-language transcript from CDN using signed URL from page data
+ */
+export async function fetchTranscriptFromCdn(
+  video_id: string,
+  cookies?: string,
+  password?: string
+): Promise<TranscriptSegment[] | null> {
+  const tracks = await fetchTranscriptTracks(video_id, cookies, password);
+  return tracks[0]?.segments ?? null;
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
+const LANGUAGE_KEYS = ['language', 'lang', 'languageCode', 'language_code', 'locale', 'srclang'];
+
 /**
- * Recursively search for transcript URL in nested object
+ * Read a language code from a URL query string (?lang=es / ?language=es)
  */
-function findTranscriptUrl(obj: unknown, depth = 0): string | null {
-  if (depth > 10 || !obj) return null;
+function languageFromUrl(url: string): string | null {
+  const match = url.match(/[?&](?:lang|language|locale)=([a-zA-Z-]{2,10})/);
+  return match ? match[1] : null;
+}
+
+function addSource(sources: Map<string, TranscriptSource>, url: string, language: string | null): void {
+  if (sources.has(url)) return;
+
+  sources.set(url, {
+    url,
+    language: (language || languageFromUrl(url) || UNKNOWN_LANGUAGE).toLowerCase(),
+    kind: url.includes('/mediametadata/captions') ? 'caption' : 'transcript',
+  });
+}
+
+/**
+ * Recursively collect transcript and caption URLs from a nested object
+ * A language code on an object applies to every URL found beneath it
+ */
+function findTranscriptSources(
+  obj: unknown,
+  sources: Map<string, TranscriptSource>,
+  language: string | null = null,
+  depth = 0
+): void {
+  if (depth > 10 || !obj) return;
 
   if (typeof obj === 'string') {
-    if (obj.includes('cdn.loom.com/mediametadata/transcription')) {
-      return obj;
+    for (const match of obj.matchAll(TRANSCRIPT_URL_PATTERN)) {
+      addSource(sources, match[0], language);
     }
-    return null;
+    return;
   }
 
-  if (typeof obj === 'object' && obj !== null) {
+  if (typeof obj === 'object') {
     const record = obj as Record<string, unknown>;
 
-    // Check common property names first
-    const url_props = [
-      'transcription_url',
-      'transcriptUrl',
-      'transcript_url',
-      'transcriptionUrl',
-      'url',
-    ];
-    for (const prop of url_props) {
-      const value = record[prop];
-      if (value && typeof value === 'string' && value.includes('cdn.loom.com')) {
-        return value;
+    let scoped_language = language;
+    for (const key of LANGUAGE_KEYS) {
+      const value = record[key];
+      if (typeof value === 'string' && /^[a-zA-Z]{2,3}(?:[-_][a-zA-Z0-9]{2,8})?$/.test(value)) {
+        scoped_language = value.replace('_', '-');
+        break;
       }
     }
 
-    // Search all properties
     for (const key of Object.keys(record)) {
-      const result = findTranscriptUrl(record[key], depth + 1);
-      if (result) return result;
+      findTranscriptSources(record[key], sources, scoped_language, depth + 1);
     }
   }
+}
+
+/**
+ * Fetch and parse one CDN track (JSON transcript or WebVTT captions)
+ */
+async function fetchTrackSegments(url: string): Promise<TranscriptSegment[] | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json, text/vtt;q=0.9, */*;q=0.8',
+        'User-Agent': DEFAULT_USER_AGENT,
+      },
+    });
+
+    if (!response.ok) {
+      console.log(`[Transcript] CDN fetch failed: ${response.status}`);
+      return null;
+    }
+
+    const body = await response.text();
+
+    if (body.trimStart().startsWith('WEBVTT')) {
+      return parseVtt(body);
+    }
+
+    return parseTranscriptData(JSON.parse(body));
+  } catch (error) {
+    console.log('[Transcript] Could not parse CDN track:', error);
+    return null;
+  }
+}
+
+/**
+ * Convert a WebVTT timestamp (HH:MM:SS.mmm or MM:SS.mmm) to seconds
+ */
+function vttTimeToSeconds(time: string): number {
+  const parts = time.trim().split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Parse WebVTT captions into transcript segments
+ */
+function parseVtt(body: string): TranscriptSegment[] | null {
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of body.replace(/\r/g, '').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing_index = lines.findIndex((line) => line.includes('-->'));
+    if (timing_index === -1) continue;
+
+    const [start, end] = lines[timing_index].split('-->');
+    const value = lines
+      .slice(timing_index + 1)
+      .join(' ')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+    if (!value) continue;
+
+    segments.push({
+      ts: vttTimeToSeconds(start),
+      value,
+      end: vttTimeToSeconds(end.trim().split(/\s+/)[0]),
+    });
+  }
+
+  if (segments.length > 0) {
+    console.log(`[Transcript] Parsed ${segments.length} segments from WebVTT format`);
+    return segments;
+  }
 
   return null;
 }
 
+/**
+ * Read the first numeric property from a record
+ */
+function readNumber(record: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    if (typeof record[key] === 'number') return record[key] as number;
+  }
+  return null;
+}
+
+/**
+ * Parse per-word timing from a phrase's `ranges` array
+ * e.g. { "ranges": [{ "ts": 0.88, "te": 1.1, "value": "Hello" }, ...] }
+ */
+function parseWordRanges(ranges: unknown): TranscriptWord[] | undefined {
+  if (!Array.isArray(ranges)) return undefined;
+
+  const words = ranges
+    .map((range: unknown): TranscriptWord | null => {
+      if (!range || typeof range !== 'object') return null;
+      const r = range as Record<string, unknown>;
+
+      const value = r.value ?? r.text ?? r.word;
+      const ts = readNumber(r, ['ts', 'start_ts', 'start']);
+      if (typeof value !== 'string' || ts === null) return null;
+
+      return {
+        ts,
+        end: readNumber(r, ['te', 'end_ts', 'end']),
+        value,
+      };
+    })
+    .filter((word): word is TranscriptWord => word !== null);
+
+  return words.length > 0 ? words : undefined;
+}
+
 /**
  * Parse transcript data from CDN JSON response
  * Handles multiple formats that Loom may return
@@ -156,12 +321,19 @@ function parseTranscriptData(data: unknown): TranscriptSegment[] | null {
         const p = phrase as Record<string, unknown>;
         return p && typeof p.value === 'string';
       })
-      .map((phrase: unknown) => {
+      .map((phrase: unknown): TranscriptSegment => {
         const p = phrase as Record<string, unknown>;
-        return {
+        const words = parseWordRanges(p.ranges);
+        const last_word_end = words?.[words.length - 1]?.end ?? null;
+
+        const segment: TranscriptSegment = {
           ts: typeof p.ts === 'number' ? p.ts : 0,
           value: p.value as string,
+          end: readNumber(p, ['te', 'end_ts', 'end']) ?? last_word_end,
         };
+        if (words) segment.words = words;
+
+        return segment;
       });
     if (segments.length > 0) {
       console.log(`[Transcript] Parsed ${segments.length} segments from phrases format`);
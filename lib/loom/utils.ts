@@ -62,6 +62,51 @@ export function extractFolderId(url: string): string | null {
   return null;
 }
 
+/**
+ * Extract space ID from a Loom workspace space URL
+ * Supports formats:
+ * - https://www.loom.com/spaces/Space-Name-123abc
+ * - https://www.loom.com/spaces/123abc
+ */
+export function extractSpaceId(url: string): string | null {
+  const match = url.match(/loom\.com\/spaces\/(?:[^/?#]*-)?([a-zA-Z0-9]+)(?:[/?#]|$)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Check for the personal library URL (all of my videos, not one folder)
+ * Supports: https://www.loom.com/looms/videos
+ */
+export function isLibraryUrl(url: string): boolean {
+  return /loom\.com\/looms\/videos\/?(?:[?#]|$)/.test(url) && !/folderId[=:]/i.test(url);
+}
+
+/**
+ * Check for the "Shared with me" URL
+ * Supports: https://www.loom.com/looms/shared
+ */
+export function isSharedWithMeUrl(url: string): boolean {
+  return /loom\.com\/looms\/shared(?:[-/?#]|$)/.test(url);
+}
+
+/**
+ * Build a Loom share URL, optionally deep-linked to a timestamp (seconds)
+ */
+export function buildShareUrl(video_id: string, seconds?: number | null): string {
+  const url = `https://www.loom.com/share/${video_id}`;
+  return seconds !== undefined && seconds !== null ? `${url}?t=${Math.floor(seconds)}` : url;
+}
+
+const LOOM_AVATAR_BASE_URL = 'https://cdn.loom.com/';
+
+/**
+ * Build an absolute avatar URL from the relative thumb path Loom returns
+ */
+export function buildAvatarUrl(avatar: { thumb?: string | null } | null | undefined): string | null {
+  if (!avatar?.thumb) return null;
+  return `${LOOM_AVATAR_BASE_URL}${avatar.thumb}`;
+}
+
 // =============================================================================
 // TIME UTILITIES
 // =============================================================================
@@ -1,5 +1,6 @@
 import { graphqlClient } from './client.js';
 import { GRAPHQL_QUERIES } from './queries.js';
+import { buildAvatarUrl } from './utils.js';
 import type { VideoMetadata } from '../types.js';
 
 // =============================================================================
@@ -12,6 +13,10 @@ interface GetVideoResponse {
       id: string;
       first_name: string;
       last_name: string;
+      avatar?: {
+        name: string;
+        thumb: string;
+      } | null;
     };
     createdAt?: string;
     name?: string;
@@ -24,13 +29,16 @@ interface GetVideoResponse {
 
 /**
  * Fetch video metadata from Loom's GraphQL API
- * Returns: createdAt, owner info, video name
+ * Returns: createdAt, owner info (ID, name, avatar), video name
  */
-export async function fetchVideoMetadata(video_id: string): Promise<VideoMetadata | null> {
+export async function fetchVideoMetadata(
+  video_id: string,
+  password?: string
+): Promise<VideoMetadata | null> {
   const data = await graphqlClient<GetVideoResponse>({
     operationName: 'GetVideo',
     query: GRAPHQL_QUERIES.GET_VIDEO,
-    variables: { id: video_id, password: null },
+    variables: { id: video_id, password: password ?? null },
   });
 
   if (!data?.getVideo) {
@@ -42,8 +50,10 @@ export async function fetchVideoMetadata(video_id: string): Promise<VideoMetadat
 
   return {
     created_at: video.createdAt || null,
+    owner_id: video.owner?.id ? String(video.owner.id) : null,
     owner_first_name: video.owner?.first_name || null,
     owner_last_name: video.owner?.last_name || null,
+    owner_avatar_url: buildAvatarUrl(video.owner?.avatar),
     name: video.name || null,
   };
 }
@@ -1,4 +1,5 @@
 import { Client } from '@upstash/qstash';
+import type { FreshnessPolicy } from './types.js';
 
 // =============================================================================
 // QSTASH CLIENT
@@ -28,23 +29,40 @@ function getBaseUrl(): string {
 // JOB PUBLISHING
 // =============================================================================
 
+// Job payloads never carry credentials - the worker looks them up (encrypted)
+// from the video's source, or from its job row when it has no source
 export interface VideoJobPayload {
   loom_video_id: string;
   source_id: string | null;
-  cookies: string | null;
+  archive_media?: boolean;
+  folder_path?: string; // Sub-folder the video was found under (recursive folder sources)
+  freshness?: FreshnessPolicy; // When a stored copy is scraped again (default: the global policy)
 }
 
+// Folder jobs only identify the source - listing progress and the discovered
+// videos are stored in Postgres, so any invocation can pick up the chain
 export interface FolderJobPayload {
-  folder_id: string;
   source_id: string;
-  cookies: string | null;
-  offset?: number; // For pagination/chaining
-  video_ids?: string[]; // Pre-fetched video IDs to process
+}
+
+export interface WebhookJobPayload {
+  delivery_id: string;
 }
 
 // Timeout for video scraping (in seconds) - scraping can take a while
 const VIDEO_TIMEOUT = '30s';
 const FOLDER_TIMEOUT = '60s';
+const MEDIA_TIMEOUT = '300s'; // Downloading the media file takes much longer
+const WEBHOOK_TIMEOUT = '30s';
+
+// The video worker records a failure once the last retry fails
+export const VIDEO_RETRIES = 3;
+
+// Max messages per QStash batch request
+export const VIDEO_BATCH_LIMIT = 100;
+
+// Webhook deliveries are retried with QStash's exponential backoff
+export const WEBHOOK_RETRIES = 5;
 
 /**
  * Publish a single video job to QStash
@@ -56,18 +74,42 @@ export async function publishVideoJob(payload: VideoJobPayload): Promise<string>
   const result = await client.publishJSON({
     url,
     body: payload,
-    retries: 3,
-    timeout: VIDEO_TIMEOUT,
+    retries: VIDEO_RETRIES,
+    timeout: payload.archive_media ? MEDIA_TIMEOUT : VIDEO_TIMEOUT,
   });
 
   return result.messageId;
 }
 
+/**
+ * Publish many video jobs in a single QStash batch request
+ * QStash accepts at most VIDEO_BATCH_LIMIT messages per batch
+ */
+export async function publishVideoJobs(payloads: VideoJobPayload[]): Promise<string[]> {
+  if (payloads.length === 0) return [];
+
+  const client = getClient();
+  const url = `${getBaseUrl()}/api/worker/video`;
+
+  const results = await client.batchJSON(
+    payloads.map((payload) => ({
+      url,
+      body: payload,
+      retries: VIDEO_RETRIES,
+      timeout: payload.archive_media ? MEDIA_TIMEOUT : VIDEO_TIMEOUT,
+    }))
+  );
+
+  return results.map((result) => result.messageId);
+}
+
 /**
  * Publish a folder job to QStash
  * The folder worker will expand this into individual video jobs
+ *
+ * @param delay_seconds - Deliver it later instead of right away
  */
-export async function publishFolderJob(payload: FolderJobPayload): Promise<string> {
+export async function publishFolderJob(payload: FolderJobPayload, delay_seconds?: number): Promise<string> {
   const client = getClient();
   const url = `${getBaseUrl()}/api/worker/folder`;
 
@@ -76,6 +118,48 @@ export async function publishFolderJob(payload: FolderJobPayload): Promise<strin
     body: payload,
     retries: 3,
     timeout: FOLDER_TIMEOUT,
+    delay: delay_seconds,
+  });
+
+  return result.messageId;
+}
+
+/**
+ * Publish many folder jobs in a single QStash batch request
+ * QStash accepts at most VIDEO_BATCH_LIMIT messages per batch
+ */
+export async function publishFolderJobs(payloads: FolderJobPayload[], delay_seconds?: number): Promise<string[]> {
+  if (payloads.length === 0) return [];
+
+  const client = getClient();
+  const url = `${getBaseUrl()}/api/worker/folder`;
+
+  const results = await client.batchJSON(
+    payloads.map((payload) => ({
+      url,
+      body: payload,
+      retries: 3,
+      timeout: FOLDER_TIMEOUT,
+      delay: delay_seconds,
+    }))
+  );
+
+  return results.map((result) => result.messageId);
+}
+
+/**
+ * Publish a webhook delivery to QStash
+ * The webhook worker sends it and returns an error status to trigger a retry
+ */
+export async function publishWebhookJob(payload: WebhookJobPayload): Promise<string> {
+  const client = getClient();
+  const url = `${getBaseUrl()}/api/worker/webhook`;
+
+  const result = await client.publishJSON({
+    url,
+    body: payload,
+    retries: WEBHOOK_RETRIES,
+    timeout: WEBHOOK_TIMEOUT,
   });
 
   return result.messageId;
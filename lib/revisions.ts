@@ -0,0 +1,190 @@
+import { createHash } from 'node:crypto';
+import type { LoomVideo, RevisionChange, TranscriptTrack } from './types.js';
+
+// =============================================================================
+// VIDEO REVISIONS - Content hashing and diffing between scraped snapshots
+// =============================================================================
+
+/**
+ * Transcript and caption tracks besides the primary one, which is `transcript`
+ * Undefined on snapshots stored before every track was kept
+ */
+function additionalTracks(video: LoomVideo): TranscriptTrack[] | undefined {
+  return video.transcripts?.slice(1);
+}
+
+/**
+ * Hash the content fields of a scraped video
+ * Thumbnails are excluded because Loom serves them from expiring signed URLs.
+ * Additional tracks are only hashed when there are any, so videos with a
+ * single transcript keep the hash they had before tracks were included
+ */
+export function hashVideoContent(video: LoomVideo): string {
+  const tracks = additionalTracks(video);
+
+  const content = {
+    title: video.title,
+    duration: Math.round(video.duration),
+    description: video.description,
+    owner_name: video.owner_name,
+    created_at: video.created_at,
+    reactions: video.reactions,
+    comments: video.comments,
+    transcript: video.transcript,
+    chapters: video.chapters,
+    tags: video.tags,
+    ...(tracks?.length ? { transcripts: tracks } : {}),
+  };
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+// =============================================================================
+// DIFFING
+// =============================================================================
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Compare two lists by ID, returning added/removed/changed counts
+ */
+function diffById<T extends { id: string }>(
+  before: T[],
+  after: T[]
+): { added: number; removed: number; changed: number } {
+  const before_by_id = new Map(before.map((item) => [item.id, item]));
+  const after_ids = new Set(after.map((item) => item.id));
+
+  let added = 0;
+  let changed = 0;
+  for (const item of after) {
+    const previous = before_by_id.get(item.id);
+    if (!previous) added++;
+    else if (JSON.stringify(previous) !== JSON.stringify(item)) changed++;
+  }
+
+  const removed = before.filter((item) => !after_ids.has(item.id)).length;
+
+  return { added, removed, changed };
+}
+
+function summarizeCounts(
+  counts: { added: number; removed: number; changed: number },
+  noun: string,
+  changed_verb: string
+): string[] {
+  const summaries: string[] = [];
+  if (counts.added) summaries.push(`${pluralize(counts.added, noun)} added`);
+  if (counts.removed) summaries.push(`${pluralize(counts.removed, noun)} removed`);
+  if (counts.changed) summaries.push(`${pluralize(counts.changed, noun)} ${changed_verb}`);
+  return summaries;
+}
+
+function diffChapters(before: LoomVideo['chapters'], after: LoomVideo['chapters']): string[] {
+  const old_chapters = before || [];
+  const new_chapters = after || [];
+  const summaries: string[] = [];
+
+  const shared = Math.min(old_chapters.length, new_chapters.length);
+  for (let i = 0; i < shared; i++) {
+    if (old_chapters[i].title !== new_chapters[i].title) {
+      summaries.push(`chapter ${i + 1} renamed`);
+    }
+    if (old_chapters[i].start_seconds !== new_chapters[i].start_seconds) {
+      summaries.push(`chapter ${i + 1} moved`);
+    }
+  }
+
+  if (new_chapters.length > old_chapters.length) {
+    summaries.push(`${pluralize(new_chapters.length - old_chapters.length, 'chapter')} added`);
+  } else if (old_chapters.length > new_chapters.length) {
+    summaries.push(`${pluralize(old_chapters.length - new_chapters.length, 'chapter')} removed`);
+  }
+
+  return summaries;
+}
+
+function diffTranscript(before: LoomVideo['transcript'], after: LoomVideo['transcript']): string[] {
+  if (!before && after) return ['transcript added'];
+  if (before && !after) return ['transcript removed'];
+
+  const old_segments = before || [];
+  const new_segments = after || [];
+
+  let changed = Math.abs(new_segments.length - old_segments.length);
+  const shared = Math.min(old_segments.length, new_segments.length);
+  for (let i = 0; i < shared; i++) {
+    if (JSON.stringify(old_segments[i]) !== JSON.stringify(new_segments[i])) changed++;
+  }
+
+  return changed ? [`${pluralize(changed, 'transcript segment')} changed`] : [];
+}
+
+/**
+ * Compare additional tracks by language and kind
+ * Skipped when either snapshot predates tracks being stored
+ */
+function diffTracks(before: TranscriptTrack[] | undefined, after: TranscriptTrack[] | undefined): string[] {
+  if (!before || !after) return [];
+
+  const label = (track: TranscriptTrack) => `${track.language} ${track.kind}`;
+  const before_by_label = new Map(before.map((track) => [label(track), track]));
+  const after_labels = new Set(after.map(label));
+
+  const added = after.filter((track) => !before_by_label.has(label(track))).map(label);
+  const removed = before.filter((track) => !after_labels.has(label(track))).map(label);
+  const changed = after
+    .filter((track) => {
+      const previous = before_by_label.get(label(track));
+      return previous && JSON.stringify(previous.segments) !== JSON.stringify(track.segments);
+    })
+    .map(label);
+
+  const summaries: string[] = [];
+  if (added.length) summaries.push(`tracks added: ${added.join(', ')}`);
+  if (removed.length) summaries.push(`tracks removed: ${removed.join(', ')}`);
+  if (changed.length) summaries.push(`tracks changed: ${changed.join(', ')}`);
+  return summaries;
+}
+
+function diffTags(before: string[], after: string[]): string[] {
+  const added = after.filter((tag) => !before.includes(tag));
+  const removed = before.filter((tag) => !after.includes(tag));
+  const summaries: string[] = [];
+  if (added.length) summaries.push(`tags added: ${added.join(', ')}`);
+  if (removed.length) summaries.push(`tags removed: ${removed.join(', ')}`);
+  return summaries;
+}
+
+/**
+ * Describe which fields changed between two snapshots of the same video
+ * Returns one entry per changed field with human-readable summaries
+ */
+export function diffVideos(before: LoomVideo, after: LoomVideo): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  const push = (field: RevisionChange['field'], summaries: string[]) => {
+    if (summaries.length > 0) changes.push({ field, summaries });
+  };
+
+  for (const field of ['title', 'description', 'owner_name', 'created_at'] as const) {
+    if (before[field] !== after[field]) {
+      push(field, [`${field.replace('_', ' ')} changed`]);
+    }
+  }
+
+  if (Math.round(before.duration) !== Math.round(after.duration)) {
+    push('duration', [`duration changed from ${Math.round(before.duration)}s to ${Math.round(after.duration)}s`]);
+  }
+
+  push('comments', summarizeCounts(diffById(before.comments, after.comments), 'comment', 'edited'));
+  push('reactions', summarizeCounts(diffById(before.reactions, after.reactions), 'reaction', 'changed'));
+  push('chapters', diffChapters(before.chapters, after.chapters));
+  push('transcript', diffTranscript(before.transcript, after.transcript));
+  push('transcripts', diffTracks(additionalTracks(before), additionalTracks(after)));
+  push('tags', diffTags(before.tags, after.tags));
+
+  return changes;
+}
@@ -0,0 +1,196 @@
+import type { SourceSchedule } from './types.js';
+
+// =============================================================================
+// SOURCE SCHEDULES - Fixed intervals and 5-field cron expressions (UTC)
+// =============================================================================
+
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 60;
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+// minute hour day-of-month month day-of-week
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+// How far ahead to look for a matching minute before giving up (e.g. "0 0 30 2 *")
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  any_day: boolean; // Day-of-month is "*"
+  any_weekday: boolean; // Day-of-week is "*"
+}
+
+// =============================================================================
+// CRON PARSING
+// =============================================================================
+
+/**
+ * Expand one cron field: "*", values ("5"), ranges ("1-5"), steps ("10-50/10",
+ * or "/15" after "*") and comma lists of those
+ */
+function parseCronField(value: string, field: CronField): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const step = match[4] ? Number(match[4]) : 1;
+    let start = field.min;
+    let end = field.max;
+
+    if (match[1] !== '*') {
+      start = Number(match[2]);
+      // "5/15" means every 15 starting at 5
+      end = match[3] ? Number(match[3]) : match[4] ? field.max : start;
+    }
+
+    if (step < 1 || start < field.min || end > field.max || start > end) return null;
+
+    for (let i = start; i <= end; i += step) {
+      values.add(i);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): ParsedCron | null {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const fields = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]));
+  if (fields.some((field) => field === null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = fields as Set<number>[];
+  if (weekdays.has(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    any_day: parts[2] === '*',
+    any_weekday: parts[4] === '*',
+  };
+}
+
+/**
+ * Standard cron day matching: when both day fields are restricted, either may match
+ */
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const day_match = cron.days.has(date.getUTCDate());
+  const weekday_match = cron.weekdays.has(date.getUTCDay());
+
+  if (cron.any_day) return weekday_match;
+  if (cron.any_weekday) return day_match;
+  return day_match || weekday_match;
+}
+
+/**
+ * Next time (UTC, to the minute) after `after` that matches a cron expression
+ * Skips whole months, days and hours that can't match
+ *
+ * @returns null if the expression is invalid or never matches
+ */
+export function nextCronRun(expression: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  if (!cron) return null;
+
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  return null;
+}
+
+// =============================================================================
+// SCHEDULES
+// =============================================================================
+
+/**
+ * Validate a schedule from an API request
+ *
+ * @returns An error message, or null if the schedule is valid
+ */
+export function validateSchedule(schedule: unknown): string | null {
+  if (typeof schedule !== 'object' || schedule === null) {
+    return 'schedule must be an object with interval_minutes or cron';
+  }
+
+  const { interval_minutes = null, cron = null } = schedule as Partial<SourceSchedule>;
+
+  if ((interval_minutes === null) === (cron === null)) {
+    return 'schedule takes either interval_minutes or cron';
+  }
+
+  if (
+    interval_minutes !== null &&
+    (!Number.isInteger(interval_minutes) || interval_minutes < MIN_SCHEDULE_INTERVAL_MINUTES)
+  ) {
+    return `schedule.interval_minutes must be an integer of at least ${MIN_SCHEDULE_INTERVAL_MINUTES}`;
+  }
+
+  if (cron !== null && (typeof cron !== 'string' || !nextCronRun(cron, new Date()))) {
+    return 'schedule.cron must be a 5-field cron expression (UTC) that matches at least once';
+  }
+
+  return null;
+}
+
+/**
+ * When a scheduled source should next run, counting from `after`
+ */
+export function nextScheduledRun(schedule: SourceSchedule, after: Date): Date | null {
+  if (schedule.cron) {
+    return nextCronRun(schedule.cron, after);
+  }
+
+  if (schedule.interval_minutes) {
+    return new Date(after.getTime() + schedule.interval_minutes * 60 * 1000);
+  }
+
+  return null;
+}
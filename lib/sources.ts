@@ -0,0 +1,149 @@
+import { addSourceVideos, RESULT_TIMEOUT_MINUTES } from './db.js';
+import { extractVideoId, MAX_FOLDER_DEPTH } from './loom/index.js';
+import { publishVideoJobs, publishFolderJobs, VIDEO_BATCH_LIMIT } from './qstash.js';
+import { resolveFreshness, validateFreshness } from './freshness.js';
+import { validateSchedule } from './schedule.js';
+import { hasStorage } from './storage/index.js';
+import type { EnqueueRequest, JobType, ScrapeSource, SourceOptions } from './types.js';
+
+// =============================================================================
+// SOURCES - Request options and dispatch, shared by enqueue, bulk enqueue and cron
+// =============================================================================
+
+export const JOB_TYPES: JobType[] = ['video', 'folder', 'library', 'shared', 'space'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a source, batch or webhook subscription ID from a request is a UUID, so it can be looked up
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+// Just past the result timeout, so a check can fail videos that never reported back
+const SETTLE_CHECK_DELAY_MINUTES = RESULT_TIMEOUT_MINUTES + 5;
+
+type SourceOptionsInput = Pick<
+  EnqueueRequest,
+  'cookies' | 'password' | 'archive_media' | 'recursive' | 'max_depth' | 'schedule' | 'freshness' | 'force'
+>;
+
+/**
+ * Validate and normalize the options of an enqueue request
+ *
+ * @returns The options, or an error message
+ */
+export function parseSourceOptions(input: SourceOptionsInput): SourceOptions | string {
+  const { password, archive_media = false, recursive = false, max_depth, schedule, freshness, force = false } = input;
+
+  if (password !== undefined && typeof password !== 'string') {
+    return 'Password must be a string';
+  }
+
+  if (typeof archive_media !== 'boolean') {
+    return 'archive_media must be a boolean';
+  }
+
+  if (archive_media && !hasStorage()) {
+    return 'archive_media requires STORAGE_BACKEND to be set';
+  }
+
+  if (typeof recursive !== 'boolean') {
+    return 'recursive must be a boolean';
+  }
+
+  if (
+    max_depth !== undefined &&
+    (!Number.isInteger(max_depth) || max_depth < 0 || max_depth > MAX_FOLDER_DEPTH)
+  ) {
+    return `max_depth must be an integer from 0 to ${MAX_FOLDER_DEPTH}`;
+  }
+
+  const schedule_error = schedule !== undefined ? validateSchedule(schedule) : null;
+  if (schedule_error) return schedule_error;
+
+  const freshness_error = freshness !== undefined ? validateFreshness(freshness) : null;
+  if (freshness_error) return freshness_error;
+
+  if (typeof force !== 'boolean') {
+    return 'force must be a boolean';
+  }
+
+  return {
+    cookies: input.cookies
+      ? (typeof input.cookies === 'string' ? input.cookies : JSON.stringify(input.cookies))
+      : null,
+    password: password || null,
+    archive_media,
+    recursive,
+    max_depth: recursive ? max_depth ?? null : null,
+    schedule: schedule ? { interval_minutes: schedule.interval_minutes ?? null, cron: schedule.cron ?? null } : null,
+    freshness: freshness ? { mode: freshness.mode, max_age_hours: freshness.max_age_hours } : null,
+    force,
+  };
+}
+
+/**
+ * Hand a pending source to the workers
+ */
+export async function dispatchSource(source: ScrapeSource): Promise<void> {
+  await dispatchSources([source]);
+}
+
+/**
+ * Re-check sources after the result timeout through a delayed folder job, which
+ * fails videos that never reported back and settles the source
+ * Until a source settles, each check schedules the next
+ */
+export async function scheduleSettleChecks(source_ids: string[]): Promise<void> {
+  for (let i = 0; i < source_ids.length; i += VIDEO_BATCH_LIMIT) {
+    await publishFolderJobs(
+      source_ids.slice(i, i + VIDEO_BATCH_LIMIT).map((source_id) => ({ source_id })),
+      SETTLE_CHECK_DELAY_MINUTES * 60
+    );
+  }
+}
+
+/**
+ * Hand pending sources to the workers in QStash batches
+ * Video sources go straight to the video worker, with a settle check in case
+ * it times out; every other type starts a folder job chain, which reads
+ * everything else from the source
+ */
+export async function dispatchSources(sources: ScrapeSource[]): Promise<void> {
+  const videos = sources.flatMap((source) => {
+    if (source.type !== 'video') return [];
+
+    const video_id = extractVideoId(source.url);
+    if (!video_id) {
+      throw new Error(`Invalid Loom video URL: ${source.url}`);
+    }
+
+    return [{ source, video_id }];
+  });
+  const folders = sources.filter((source) => source.type !== 'video');
+
+  for (let i = 0; i < videos.length; i += VIDEO_BATCH_LIMIT) {
+    const slice = videos.slice(i, i + VIDEO_BATCH_LIMIT);
+
+    // Queue on the sources first so each worker result always has a row to settle.
+    // Sources of later slices stay unqueued if publishing fails, for the cron job to dispatch
+    await addSourceVideos(slice.map(({ source, video_id }) => ({ source_id: source.id, loom_video_id: video_id })));
+
+    await publishVideoJobs(
+      slice.map(({ source, video_id }) => ({
+        loom_video_id: video_id,
+        source_id: source.id,
+        archive_media: source.archive_media,
+        freshness: resolveFreshness(source),
+      }))
+    );
+  }
+
+  await scheduleSettleChecks(videos.map(({ source }) => source.id));
+
+  for (let i = 0; i < folders.length; i += VIDEO_BATCH_LIMIT) {
+    await publishFolderJobs(folders.slice(i, i + VIDEO_BATCH_LIMIT).map((source) => ({ source_id: source.id })));
+  }
+}
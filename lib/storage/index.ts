@@ -0,0 +1,59 @@
+import type { Readable } from 'node:stream';
+import { LocalStorage } from './local.js';
+import { S3Storage } from './s3.js';
+
+// =============================================================================
+// OBJECT STORAGE - Pluggable backends for archived media
+// =============================================================================
+
+export type StorageBackendName = 'local' | 's3';
+
+export interface StoredObject {
+  body: Readable;
+  size: number | null;
+}
+
+/**
+ * Minimal object storage interface
+ * Keys are slash-separated paths, e.g. "media/abc123.mp4"
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  put(key: string, body: Readable, content_type: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>; // null when the key doesn't exist
+}
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Whether a storage backend is configured
+ * Nothing is archived without one - serverless filesystems don't keep files
+ */
+export function hasStorage(): boolean {
+  return Boolean(process.env.STORAGE_BACKEND);
+}
+
+/**
+ * Get the configured storage backend using STORAGE_BACKEND (local | s3)
+ *
+ * @returns The backend, or null if STORAGE_BACKEND isn't set
+ */
+export function getStorage(): StorageBackend | null {
+  if (backend) return backend;
+  if (!hasStorage()) return null;
+
+  const name = process.env.STORAGE_BACKEND as StorageBackendName;
+
+  switch (name) {
+    case 'local':
+      backend = new LocalStorage(process.env.STORAGE_LOCAL_DIR || './storage');
+      break;
+    case 's3':
+      backend = S3Storage.fromEnv();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${name}`);
+  }
+
+  return backend;
+}
@@ -0,0 +1,60 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rename, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { StorageBackend, StoredObject } from './index.js';
+
+// =============================================================================
+// LOCAL FILESYSTEM STORAGE
+// =============================================================================
+
+export class LocalStorage implements StorageBackend {
+  readonly name = 'local' as const;
+
+  constructor(private readonly root_dir: string) {}
+
+  /**
+   * Resolve a key to a path inside the root directory
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.root_dir);
+    const file_path = path.resolve(root, key);
+
+    if (!file_path.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return file_path;
+  }
+
+  /**
+   * Stream to a temporary file, then rename so readers never see partial objects
+   */
+  async put(key: string, body: Readable, _content_type: string): Promise<void> {
+    const file_path = this.resolve(key);
+    const temp_path = `${file_path}.partial`;
+
+    await mkdir(path.dirname(file_path), { recursive: true });
+
+    try {
+      await pipeline(body, createWriteStream(temp_path));
+      await rename(temp_path, file_path);
+    } catch (error) {
+      await rm(temp_path, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const file_path = this.resolve(key);
+
+    try {
+      const stats = await stat(file_path);
+      return { body: createReadStream(file_path), size: stats.size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { GetObjectCommand, NoSuchKey, S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { Readable } from 'node:stream';
+import type { StorageBackend, StoredObject } from './index.js';
+
+// =============================================================================
+// S3-COMPATIBLE STORAGE - AWS S3, MinIO, Cloudflare R2, etc.
+// =============================================================================
+
+export class S3Storage implements StorageBackend {
+  readonly name = 's3' as const;
+
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string
+  ) {}
+
+  /**
+   * Create from environment variables
+   * S3_ENDPOINT and S3_FORCE_PATH_STYLE=true are needed for MinIO
+   */
+  static fromEnv(): S3Storage {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET environment variable is not set');
+    }
+
+    const access_key_id = process.env.S3_ACCESS_KEY_ID;
+    const secret_access_key = process.env.S3_SECRET_ACCESS_KEY;
+
+    const client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials:
+        access_key_id && secret_access_key
+          ? { accessKeyId: access_key_id, secretAccessKey: secret_access_key }
+          : undefined,
+    });
+
+    return new S3Storage(client, bucket);
+  }
+
+  /**
+   * Stream upload using multipart for large objects
+   */
+  async put(key: string, body: Readable, content_type: string): Promise<void> {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: content_type,
+      },
+    });
+
+    await upload.done();
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+
+      return {
+        body: response.Body as Readable,
+        size: response.ContentLength ?? null,
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+}
@@ -2,30 +2,54 @@
 // VIDEO DATA TYPES - Core data structures for scraped Loom videos
 // =============================================================================
 
+export interface CommentMention {
+  user_id: string; // Loom user ID of the mentioned person
+  name: string;
+}
+
 export interface CommentReply {
   id: string;
+  guid: string | null;
   author: string;
-  content: string;
+  user_id: string | null; // Loom user ID, null for anonymous viewers
+  anon_user_id: string | null;
+  content: string; // Plain text, mentions rendered as @Name
+  mentions: CommentMention[];
   video_timestamp: number | null;
   avatar_url: string | null;
   created_at: string;
   edited: boolean;
+  is_chat_message: boolean;
+  deleted_at: string | null; // Set on tombstones of deleted comments
+  reaction: string | null; // Emoji when the reply is a reaction
 }
 
-export interface LoomComment {
-  id: string;
-  author: string;
-  content: string;
-  video_timestamp: number | null;
-  avatar_url: string | null;
-  created_at: string;
-  edited: boolean;
+export interface LoomComment extends Omit<CommentReply, 'reaction'> {
   replies: CommentReply[];
 }
 
+export interface TranscriptWord {
+  ts: number;
+  end: number | null;
+  value: string;
+}
+
 export interface TranscriptSegment {
   ts: number;
   value: string;
+  end?: number | null; // Seconds, when the CDN payload provides it
+  words?: TranscriptWord[]; // Word-level timing from the phrases `ranges` array
+}
+
+/**
+ * A transcript or caption track in one language
+ * `transcript` tracks come from Loom's transcription JSON, `caption` tracks from WebVTT captions
+ */
+export interface TranscriptTrack {
+  language: string; // BCP 47 code, or 'und' when Loom doesn't say
+  kind: 'transcript' | 'caption';
+  is_original: boolean;
+  segments: TranscriptSegment[];
 }
 
 export interface Chapter {
@@ -46,39 +70,179 @@ export interface LoomVideo {
   title: string;
   duration: number;
   thumbnail: string | null;
+  animated_thumbnail: string | null; // Animated preview GIF
+  thumbnail_source_url?: string | null; // Original Loom URL when `thumbnail` points at our stored copy
+  animated_thumbnail_source_url?: string | null;
   description: string | null;
   reactions: Reaction[];
   comments: LoomComment[];
   transcript: TranscriptSegment[] | null;
+  transcript_language: string | null;
+  transcript_languages: string[]; // Every language with a transcript or caption track
+  transcripts?: TranscriptTrack[]; // All tracks; only present on freshly scraped data
   chapters: Chapter[] | null;
   tags: string[];
   created_at: string | null;
+  owner_id: string | null; // Stable Loom user ID
   owner_name: string | null;
   owner_avatar_url: string | null;
+  folder_path?: string | null; // Sub-folder within a recursive folder source, when listed by source
+  availability?: VideoAvailability; // Only on stored videos
+  unavailable_since?: string | null; // When Loom stopped serving it, or it left the source
+}
+
+/**
+ * A freshly scraped video with the comments and reactions exactly as Loom returned them
+ */
+export interface ScrapedVideo extends LoomVideo {
+  all_comments: LoomComment[] | null; // Null when the comments request failed
+  all_reactions: Reaction[] | null; // Null when the reactions request failed
 }
 
+/**
+ * Whether a stored video still exists on Loom
+ * removed_from_source only applies when videos are listed by source
+ */
+export type VideoAvailability = 'available' | 'removed_from_source' | 'deleted' | 'access_revoked';
+
 // =============================================================================
 // DATABASE TYPES - Shapes for Neon Postgres persistence
 // =============================================================================
 
 export type ScrapeStatus = 'pending' | 'processing' | 'completed' | 'failed';
-export type JobType = 'video' | 'folder';
+export type SourceStatus = ScrapeStatus | 'partially_failed'; // Some of a source's videos failed
+export type JobType = 'video' | 'folder' | 'library' | 'shared' | 'space';
 
 /**
- * Represents a folder or single video to be scraped
- * Folders are expanded into individual video jobs
+ * Represents a single video or a bulk source (folder, library, shared-with-me, space) to be scraped
+ * Bulk sources are expanded into individual video jobs
  */
 export interface ScrapeSource {
   id: string;
   url: string;
   type: JobType;
-  cookies: string | null;
-  status: ScrapeStatus;
+  cookies: string | null; // Encrypted, cleared once the source settles (unless scheduled)
+  password: string | null; // Encrypted, applies to every video in the source
+  video_passwords: Record<string, string>; // Encrypted, keyed by Loom video ID
+  archive_media: boolean;
+  recursive: boolean; // Folder sources: include sub-folders
+  max_depth: number | null;
+  listing_state: ListingState | null; // Resumable listing progress (bulk sources)
+  listing_errors: string[]; // Pages or sub-folders skipped because they failed
+  videos_discovered: number;
+  listing_started_at: string | null;
+  listing_completed_at: string | null;
+  schedule_interval_minutes: number | null; // Re-run every N minutes
+  schedule_cron: string | null; // Or on a 5-field cron expression (UTC)
+  last_run_at: string | null; // When the latest scheduled run started
+  next_run_at: string | null; // When the cron job re-enqueues it next
+  freshness: Partial<FreshnessPolicy> | null; // Overrides the global freshness policy
+  force_rescrape: boolean; // The current run re-scrapes every video
+  batch_id: string | null; // Bulk enqueue the source was created by
+  idempotency_key: string | null; // Idempotency-Key it was enqueued with, released after 24 hours
+  status: SourceStatus;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * When an already stored video is scraped again
+ * - stale: once it is older than max_age_hours
+ * - incomplete: only when it is missing data (transcript, duration or stored thumbnail)
+ * - force: always
+ */
+export type FreshnessMode = 'stale' | 'incomplete' | 'force';
+
+export interface FreshnessPolicy {
+  mode: FreshnessMode;
+  max_age_hours: number;
+}
+
+/**
+ * Recurring re-run of a source - exactly one of interval_minutes or cron
+ */
+export interface SourceSchedule {
+  interval_minutes: number | null;
+  cron: string | null;
+}
+
+/**
+ * Public view of a source and its videos' progress - credentials and listing cursors are left out
+ * counts.pending are still to be published; counts.claimed are with the video worker
+ */
+export interface SourceProgress {
+  id: string;
+  url: string;
+  type: JobType;
+  status: SourceStatus;
   error_message: string | null;
+  batch_id: string | null;
+  archive_media: boolean;
+  recursive: boolean;
+  max_depth: number | null;
+  videos_discovered: number;
+  counts: SourceQueueCounts;
+  listing_errors: string[];
+  schedule_interval_minutes: number | null;
+  schedule_cron: string | null;
+  listing_started_at: string | null;
+  listing_completed_at: string | null;
+  last_run_at: string | null;
+  next_run_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface SourceFilters {
+  status?: SourceStatus;
+  type?: JobType;
+  batch_id?: string;
+}
+
+/**
+ * Options shared by every source of a bulk enqueue, normalized for storage
+ */
+export interface SourceOptions {
+  cookies: string | null;
+  password: string | null;
+  archive_media: boolean;
+  recursive: boolean; // Applies to folder sources only
+  max_depth: number | null;
+  schedule: SourceSchedule | null;
+  freshness: Partial<FreshnessPolicy> | null;
+  force: boolean;
+}
+
+/**
+ * A line of a bulk enqueue that couldn't be turned into a source
+ */
+export interface BatchLineError {
+  line: number; // 1-based
+  input: string;
+  error: string;
+}
+
+/**
+ * Parent record of a bulk enqueue - its sources point back to it with batch_id
+ */
+export interface ScrapeBatch {
+  id: string;
+  total_lines: number;
+  sources_created: number;
+  errors: BatchLineError[];
+  created_at: string;
+}
+
+/**
+ * Aggregate progress of a batch's sources and their videos
+ */
+export interface BatchProgress extends ScrapeBatch {
+  status: 'processing' | 'completed'; // Completed once every source has settled
+  sources: Record<SourceStatus, number>;
+  videos: SourceQueueCounts;
+}
+
 /**
  * Individual video scrape job in the queue
  * Each video is processed independently to avoid timeouts
@@ -91,7 +255,10 @@ export interface VideoJob {
   attempt_count: number;
   max_attempts: number;
   error_message: string | null;
-  cookies: string | null;
+  cookies: string | null; // Encrypted
+  password: string | null; // Encrypted
+  archive_media: boolean;
+  folder_path: string | null; // Sub-folder the video was found under (recursive folder sources)
   created_at: string;
   updated_at: string;
   processed_at: string | null;
@@ -106,21 +273,200 @@ export interface PersistedVideo {
   loom_video_id: string;
   title: string;
   duration: number;
-  thumbnail: string | null;
+  thumbnail: string | null; // Original Loom URL (provenance)
+  thumbnail_storage_key: string | null;
+  thumbnail_content_type: string | null;
+  animated_thumbnail: string | null; // Original Loom URL (provenance)
+  animated_thumbnail_storage_key: string | null;
+  animated_thumbnail_content_type: string | null;
   description: string | null;
+  owner_id: string | null;
   owner_name: string | null;
   owner_avatar_url: string | null;
   loom_created_at: string | null;
   reactions: Reaction[];
   comments: LoomComment[];
   transcript: TranscriptSegment[] | null;
+  transcript_language: string | null;
+  transcripts: TranscriptTrack[];
   chapters: Chapter[] | null;
   tags: string[];
   raw_data: LoomVideo;
+  folder_path?: string | null; // Only when listed by source
+  removed_from_source_at?: string | null; // Only when listed by source
+  availability: Exclude<VideoAvailability, 'removed_from_source'>;
+  unavailable_since: string | null;
+  availability_checked_at: string | null;
+  media_storage_backend: string | null;
+  media_storage_key: string | null;
+  media_checksum: string | null;
+  media_size: number | null;
+  media_content_type: string | null;
+  media_archived_at: string | null;
   scraped_at: string;
   updated_at: string;
 }
 
+/**
+ * Archived copy of a video's media file in object storage
+ */
+export interface MediaArchive {
+  storage_backend: 'local' | 's3';
+  storage_key: string;
+  checksum: string; // SHA-256 hex
+  size: number; // Bytes
+  content_type: string;
+  source_type: 'mp4' | 'hls';
+}
+
+/**
+ * Image copied from Loom's CDN into object storage
+ */
+export interface StoredImage {
+  storage_key: string;
+  content_type: string;
+}
+
+export interface ThumbnailArchive {
+  thumbnail: StoredImage | null;
+  animated_thumbnail: StoredImage | null;
+}
+
+/**
+ * Snapshot of a video's scraped content, stored whenever a scrape changes it
+ * Revisions are numbered per video starting at 1
+ */
+export interface VideoRevision {
+  id: string;
+  loom_video_id: string;
+  revision: number;
+  content_hash: string;
+  snapshot: LoomVideo;
+  created_at: string;
+}
+
+/**
+ * A field that differs between two revisions, with human-readable summaries
+ * e.g. { field: 'comments', summaries: ['3 comments added'] }
+ */
+export interface RevisionChange {
+  field:
+    | 'title'
+    | 'description'
+    | 'duration'
+    | 'owner_name'
+    | 'created_at'
+    | 'comments'
+    | 'reactions'
+    | 'chapters'
+    | 'transcript'
+    | 'transcripts'
+    | 'tags';
+  summaries: string[];
+}
+
+/**
+ * Video owner (creator), keyed by their stable Loom user ID
+ */
+export interface Owner {
+  id: string;
+  name: string | null;
+  avatar_url: string | null;
+  video_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Comment or reply row, keyed by its Loom comment ID
+ * Replies point at their top-level comment through parent_id
+ */
+export interface StoredComment {
+  id: string;
+  loom_video_id: string;
+  parent_id: string | null;
+  guid: string | null;
+  author: string;
+  user_id: string | null;
+  anon_user_id: string | null;
+  content: string;
+  mentions: CommentMention[];
+  video_timestamp: number | null;
+  avatar_url: string | null;
+  loom_created_at: string;
+  edited: boolean;
+  is_chat_message: boolean;
+  reaction: string | null;
+  deleted_at: string | null;
+  reply_count: number; // Replies that haven't been deleted
+  first_seen_at: string;
+  updated_at: string;
+}
+
+/**
+ * Reaction row, keyed by its Loom reaction ID
+ */
+export interface StoredReaction {
+  id: string;
+  loom_video_id: string;
+  user_name: string;
+  reaction: string;
+  video_timestamp: number;
+  first_seen_at: string;
+  updated_at: string;
+}
+
+export type WebhookEvent =
+  | 'source.completed'
+  | 'source.failed'
+  | 'video.scraped'
+  | 'video.failed'
+  | 'video.changed'
+  | 'video.new_comments';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Outbound webhook subscription
+ * The signing secret is stored encrypted and only returned when the subscription is created
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One event sent to one subscription, with the outcome of the latest attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event: WebhookEvent;
+  data: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  response_status: number | null;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * Body POSTed to subscribers
+ */
+export interface WebhookPayload {
+  id: string; // Delivery ID, stable across retries
+  event: WebhookEvent;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
 // =============================================================================
 // GRAPHQL TYPES - Request/response shapes for Loom's GraphQL API
 // =============================================================================
@@ -141,8 +487,10 @@ export interface GraphQLResponse<T> {
 
 export interface VideoMetadata {
   created_at: string | null;
+  owner_id: string | null;
   owner_first_name: string | null;
   owner_last_name: string | null;
+  owner_avatar_url: string | null;
   name: string | null;
 }
 
@@ -154,13 +502,49 @@ export interface EnqueueRequest {
   url: string;
   type: JobType;
   cookies?: string | object[];
+  password?: string; // Video password, or default password for every video in a folder
+  video_passwords?: Record<string, string>; // Per-video passwords keyed by Loom video ID
+  archive_media?: boolean; // Download the video file into object storage
+  recursive?: boolean; // Folders only: also scrape sub-folders
+  max_depth?: number; // Sub-folder levels to descend when recursive (default 5, max 10)
+  schedule?: Partial<SourceSchedule>; // Re-run the source on an interval or cron expression
+  freshness?: Partial<FreshnessPolicy>; // When stored videos are re-scraped, for every run of the source
+  force?: boolean; // Re-scrape every video in this run, however fresh
 }
 
 export interface EnqueueResponse {
   success: boolean;
   source_id?: string;
   jobs_created?: number;
+  next_run_at?: string | null;
+  status?: SourceStatus;
+  duplicate?: boolean; // An existing source was returned instead of starting a new one
+  error?: string;
+}
+
+/**
+ * Bulk enqueue - URLs as an array, or as newline-separated text or CSV
+ * The options apply to every source in the batch
+ */
+export interface BatchRequest {
+  urls?: (string | { url: string; type?: JobType })[];
+  text?: string; // One URL per line, or CSV with a url column (and optional type column)
+  cookies?: string | object[];
+  password?: string;
+  archive_media?: boolean;
+  recursive?: boolean;
+  max_depth?: number;
+  schedule?: Partial<SourceSchedule>;
+  freshness?: Partial<FreshnessPolicy>;
+  force?: boolean;
+}
+
+export interface BatchResponse {
+  success: boolean;
+  data?: BatchProgress;
+  errors?: BatchLineError[];
   error?: string;
+  warning?: string; // The batch was created, but some sources couldn't be queued yet
 }
 
 export interface VideoResponse {
@@ -170,6 +554,142 @@ export interface VideoResponse {
   error?: string;
 }
 
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'md';
+
+export interface VideoHistoryEntry {
+  revision: number;
+  content_hash: string;
+  created_at: string;
+  changes: RevisionChange[]; // Relative to the previous revision
+}
+
+export interface VideoHistoryResponse {
+  success: boolean;
+  data?: VideoHistoryEntry[] | VideoRevision;
+  total?: number;
+  error?: string;
+}
+
+export interface VideoDiffResponse {
+  success: boolean;
+  video_id?: string;
+  from?: number;
+  to?: number;
+  changes?: RevisionChange[];
+  error?: string;
+}
+
+export type SearchField = 'title' | 'description' | 'transcript' | 'comment';
+
+/**
+ * A single full-text search match
+ * Transcript and comment hits carry the video timestamp they occur at
+ */
+export interface SearchHit {
+  video_id: string;
+  title: string;
+  field: SearchField;
+  snippet: string;
+  rank: number;
+  ts: number | null;
+  comment_id: string | null;
+  url?: string; // Loom share URL, deep-linked with ?t= when ts is known
+}
+
+export interface SearchResponse {
+  success: boolean;
+  data?: SearchHit[];
+  total?: number;
+  error?: string;
+}
+
+export interface OwnersResponse {
+  success: boolean;
+  data?: Owner[] | Owner;
+  total?: number;
+  error?: string;
+}
+
+export interface CommentFilters {
+  author?: string;
+  user_id?: string;
+  mentioned?: string; // Loom user ID that must be mentioned
+  since?: Date;
+  video_id?: string;
+  unanswered?: boolean; // Top-level comments without replies
+  include_deleted?: boolean;
+}
+
+export interface CommentsResponse {
+  success: boolean;
+  data?: StoredComment[];
+  total?: number;
+  error?: string;
+}
+
+export interface ReactionFilters {
+  user_name?: string;
+  since?: Date;
+  video_id?: string;
+}
+
+export interface ReactionsResponse {
+  success: boolean;
+  data?: StoredReaction[];
+  total?: number;
+  error?: string;
+}
+
+export interface WebhookRequest {
+  url: string;
+  events: WebhookEvent[];
+  secret?: string; // Generated when omitted
+  description?: string;
+}
+
+export interface WebhookResponse {
+  success: boolean;
+  data?: WebhookSubscription | WebhookSubscription[];
+  secret?: string; // Only on creation
+  error?: string;
+}
+
+export interface WebhookDeliveriesResponse {
+  success: boolean;
+  data?: WebhookDelivery[];
+  total?: number;
+  error?: string;
+}
+
+export interface SourceSnapshotsResponse {
+  success: boolean;
+  data?: SourceSnapshot[];
+  error?: string;
+}
+
+export interface SourcesResponse {
+  success: boolean;
+  data?: SourceProgress | SourceProgress[];
+  total?: number;
+  error?: string;
+}
+
+export interface SourceScheduleRequest extends Partial<SourceSchedule> {
+  cookies?: string; // Replaces the source's stored cookies for the coming runs
+  password?: string; // Replaces the source's default video password
+}
+
+export interface SourceScheduleResponse {
+  success: boolean;
+  data?: {
+    source_id: string;
+    schedule: SourceSchedule | null;
+    last_run_at: string | null;
+    next_run_at: string | null;
+  };
+  error?: string;
+}
+
 export interface WorkerResponse {
   success: boolean;
   video_id?: string;
@@ -179,6 +699,8 @@ export interface WorkerResponse {
 export interface CronResponse {
   success: boolean;
   jobs_processed?: number;
+  sources_resumed?: number;
+  sources_scheduled?: number;
   errors?: string[];
 }
 
@@ -190,7 +712,6 @@ export interface QueuedJob {
   job_id: string;
   loom_video_id: string;
   source_id: string | null;
-  cookies: string | null;
   enqueued_at: string;
 }
 
@@ -202,12 +723,61 @@ export interface FolderVideo {
   id: string;
   name: string;
   visibility: string;
+  folder_id?: string; // Folder the video was found in (recursive listings)
+  folder_path?: string; // Sub-folder names below the enqueued folder, e.g. "Project / Sprint 3"
 }
 
-export interface FolderResult {
-  success: boolean;
-  folder_id?: string;
-  videos?: FolderVideo[];
-  total_count?: number;
-  error?: string;
+/**
+ * `source` argument of Loom's GetLoomsForLibrary query
+ * MINE lists the personal library (or one folder of it), SHARED the videos shared with me,
+ * SPACE the videos in a workspace space
+ */
+export type LoomsSource = 'MINE' | 'SHARED' | 'SPACE';
+
+/**
+ * A GetLoomsForLibrary listing: which collection to page through
+ */
+export interface LibraryListing {
+  source: LoomsSource;
+  source_value: string | null; // Folder or space ID
+  folder_id: string | null;
+}
+
+/**
+ * Progress through a (possibly recursive) listing, stored between chained invocations
+ * The head of `pending` is being paged with `cursor` (Loom's endCursor)
+ */
+export interface ListingState {
+  pending: { listing: LibraryListing; path: string[]; depth: number }[];
+  cursor: string | null;
+  visited: string[]; // Folder IDs already queued (cycle protection)
+  max_depth: number | null; // Null when not recursive
+  pages_fetched: number;
+}
+
+/**
+ * A video discovered for a source, from listing until the video worker reports back
+ * pending: waiting to be published - claimed: published to the video worker
+ */
+export type SourceVideoStatus = 'pending' | 'claimed' | 'completed' | 'skipped' | 'failed';
+
+export interface SourceQueueItem {
+  loom_video_id: string;
+  folder_path: string | null;
+}
+
+export type SourceQueueCounts = Record<SourceVideoStatus, number>;
+
+/**
+ * Membership of a bulk source after one of its listings finished
+ * Removals are only recorded for complete listings
+ */
+export interface SourceSnapshot {
+  id: string;
+  source_id: string;
+  video_count: number; // Videos seen by this listing
+  added: string[]; // Loom video IDs first seen by this listing
+  removed: string[]; // Loom video IDs no longer in the source
+  complete: boolean; // False when pages or sub-folders failed to list
+  created_at: string;
 }
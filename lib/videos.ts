@@ -0,0 +1,81 @@
+import type { VercelRequest } from '@vercel/node';
+import { selectTranscriptTrack } from './captions.js';
+import { withoutDeletedComments } from './loom/comments.js';
+import type { LoomVideo, PersistedVideo, TranscriptTrack } from './types.js';
+
+// =============================================================================
+// VIDEO RESPONSE TRANSFORMS - Shared by the read-only API endpoints
+// =============================================================================
+
+export interface TransformOptions {
+  include_words: boolean;
+  lang?: string;
+  base_url: string;
+}
+
+/**
+ * Origin of the incoming request, used to build links to our own routes
+ */
+export function getRequestBaseUrl(req: VercelRequest): string {
+  const proto = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0] || 'https';
+  return `${proto}://${req.headers.host}`;
+}
+
+/**
+ * Transform persisted video from database to API response format
+ * This maintains compatibility with the original Loom video format
+ * Word-level transcript timings are stripped unless requested
+ * When a language is requested, `transcript` holds that language's track (or null)
+ * Stored thumbnails are served from /api/videos/:id/thumbnail instead of Loom's expiring URLs
+ * A video still on Loom that left the source it was listed by is removed_from_source
+ */
+export function transformToLoomVideo(persisted: PersistedVideo, options: TransformOptions): LoomVideo {
+  const tracks = (persisted.transcripts as TranscriptTrack[]) || [];
+
+  let transcript = (persisted.transcript as LoomVideo['transcript']) || null;
+  let transcript_language = persisted.transcript_language;
+
+  if (options.lang) {
+    const track = selectTranscriptTrack(tracks, options.lang);
+    transcript = track?.segments ?? null;
+    transcript_language = track?.language ?? null;
+  }
+
+  if (transcript && !options.include_words) {
+    transcript = transcript.map(({ words, ...segment }) => segment);
+  }
+
+  const loom_availability = persisted.availability ?? 'available';
+  const removed_from_source = loom_availability === 'available' && !!persisted.removed_from_source_at;
+
+  const thumbnail_route = `${options.base_url}/api/videos/${persisted.loom_video_id}/thumbnail`;
+
+  return {
+    id: persisted.loom_video_id,
+    title: persisted.title,
+    duration: persisted.duration,
+    thumbnail: persisted.thumbnail_storage_key ? thumbnail_route : persisted.thumbnail,
+    thumbnail_source_url: persisted.thumbnail,
+    animated_thumbnail: persisted.animated_thumbnail_storage_key
+      ? `${thumbnail_route}?animated=true`
+      : persisted.animated_thumbnail,
+    animated_thumbnail_source_url: persisted.animated_thumbnail,
+    description: persisted.description,
+    owner_id: persisted.owner_id,
+    owner_name: persisted.owner_name,
+    owner_avatar_url: persisted.owner_avatar_url,
+    created_at: persisted.loom_created_at,
+    reactions: persisted.reactions || [],
+    comments: withoutDeletedComments(persisted.comments || []), // Stored before tombstones were kept off the video
+    transcript,
+    transcript_language,
+    transcript_languages: [...new Set(tracks.map((track) => track.language))],
+    chapters: persisted.chapters || null,
+    tags: persisted.tags || [],
+    folder_path: persisted.folder_path, // Undefined (omitted) unless listed by source
+    availability: removed_from_source ? 'removed_from_source' : loom_availability,
+    unavailable_since: removed_from_source
+      ? persisted.removed_from_source_at
+      : persisted.unavailable_since ?? null,
+  };
+}
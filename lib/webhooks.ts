@@ -0,0 +1,161 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { createWebhookDeliveries, getSourceQueueCounts } from './db.js';
+import { publishWebhookJob } from './qstash.js';
+import { diffVideos } from './revisions.js';
+import { buildShareUrl, buildListing } from './loom/index.js';
+import type { LoomVideo, ScrapeSource, WebhookEvent, WebhookPayload } from './types.js';
+
+// =============================================================================
+// OUTBOUND WEBHOOKS - Event fan-out, signing and delivery
+// =============================================================================
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'source.completed',
+  'source.failed',
+  'video.scraped',
+  'video.failed',
+  'video.changed',
+  'video.new_comments',
+];
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Generate a signing secret for a new subscription
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * HMAC-SHA256 signature over "<timestamp>.<body>"
+ * Sent as `X-Webhook-Signature: t=<timestamp>,v1=<hex>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// =============================================================================
+// EVENT EMISSION
+// =============================================================================
+
+/**
+ * Queue an event for every subscription listening to it
+ * Never throws - webhook problems must not fail the scrape that triggered them
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const deliveries = await createWebhookDeliveries(event, data);
+
+    await Promise.all(
+      deliveries.map((delivery) => publishWebhookJob({ delivery_id: delivery.id }))
+    );
+
+    if (deliveries.length > 0) {
+      console.log(`[Webhooks] Queued ${event} for ${deliveries.length} subscription(s)`);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event}:`, error);
+  }
+}
+
+/**
+ * Emit the event for a source that just settled
+ * source.completed carries the final status, so partial failures are visible
+ */
+export async function emitSourceSettled(source: ScrapeSource): Promise<void> {
+  try {
+    const counts = await getSourceQueueCounts(source.id);
+
+    await emitWebhookEvent(source.status === 'failed' ? 'source.failed' : 'source.completed', {
+      source_id: source.id,
+      folder_id: buildListing(source.type, source.url)?.folder_id ?? null,
+      status: source.status,
+      error: source.error_message,
+      counts,
+      listing_errors: source.listing_errors,
+    });
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue events for source ${source.id}:`, error);
+  }
+}
+
+/**
+ * Emit the events for a freshly saved scrape
+ * `previous` is the last stored version of the video, if any
+ */
+export async function emitVideoEvents(
+  previous: LoomVideo | null,
+  video: LoomVideo,
+  source_id: string | null
+): Promise<void> {
+  const base = { video_id: video.id, source_id, title: video.title, url: buildShareUrl(video.id) };
+
+  await emitWebhookEvent('video.scraped', base);
+
+  if (!previous) return;
+
+  const changes = diffVideos(previous, video);
+  if (changes.length > 0) {
+    await emitWebhookEvent('video.changed', { ...base, changes });
+  }
+
+  // Comments and replies that weren't in the previous scrape
+  const known_ids = new Set(
+    previous.comments.flatMap((comment) => [comment.id, ...comment.replies.map((reply) => reply.id)])
+  );
+  const new_comments = video.comments
+    .flatMap(({ replies, ...comment }) => [
+      { ...comment, parent_id: null as string | null },
+      ...replies.map((reply) => ({ ...reply, parent_id: comment.id })),
+    ])
+    .filter((comment) => !known_ids.has(comment.id) && !comment.deleted_at);
+
+  if (new_comments.length > 0) {
+    await emitWebhookEvent('video.new_comments', { ...base, comments: new_comments });
+  }
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * POST a signed payload to a subscriber
+ * Any 2xx response counts as delivered
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload
+): Promise<{ ok: boolean; status: number | null; error?: string }> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'loom-scraper-webhooks/1.0',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: `Subscriber responded ${response.status}` };
+    }
+
+    return { ok: true, status: response.status };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}